@@ -1,14 +1,33 @@
+import {
+  expectDate,
+  expectNumber,
+  expectState,
+  expectString,
+  type State,
+  type Validator,
+} from "./validate.ts";
+
 export type Mint = {
     id: number;
     url: string;
-    info: string;
+    // null or missing when the auditor couldn't get the mint's info
+    info: string | null;
     name: string;
     balance: number;
     sum_donations: number;
     updated_at: string;
     next_update: string;
-    state: "OK" | "UNKNOWN" | "ERROR";
+    state: State;
     n_errors: number;
     n_mints: number;
     n_melts: number;
-  };
\ No newline at end of file
+  };
+
+export const validateMint: Validator = (mint) => [
+  ...["id", "balance", "sum_donations", "n_errors", "n_mints", "n_melts"]
+    .flatMap((key) => expectNumber(mint, key)),
+  ...["url", "name"].flatMap((key) => expectString(mint, key)),
+  ...(mint.info == null ? [] : expectString(mint, "info")),
+  ...["updated_at", "next_update"].flatMap((key) => expectDate(mint, key)),
+  ...expectState(mint, "state"),
+];
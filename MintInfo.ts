@@ -0,0 +1,93 @@
+// Mint info as returned by the mint's /v1/info endpoint (NUT-06)
+export type MintInfo = {
+  name?: string;
+  pubkey?: string;
+  version?: string;
+  description?: string;
+  description_long?: string;
+  contact: { method: string; info: string }[];
+  motd?: string;
+  nuts: Record<string, unknown>;
+};
+
+const optionalStrings = [
+  "name",
+  "pubkey",
+  "version",
+  "description",
+  "description_long",
+  "motd",
+] as const;
+
+/**
+ * Parses the info JSON of a mint. Unexpected fields are dropped and
+ * reported in `problems` rather than failing the whole record, `info` is
+ * only null when there is none or the JSON itself can't be read.
+ */
+export const parseMintInfo = (raw: string | null | undefined) => {
+  const problems: string[] = [];
+  if (raw == null) return { info: null, problems };
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(raw);
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+      throw new Error("not an object");
+    }
+  } catch (error) {
+    return { info: null, problems: [`info is not valid JSON: ${error}`] };
+  }
+  const info: MintInfo = { contact: [], nuts: {} };
+  for (const key of optionalStrings) {
+    if (json[key] === undefined || json[key] === null) continue;
+    if (typeof json[key] === "string") info[key] = json[key] as string;
+    else problems.push(`${key} is not a string: ${JSON.stringify(json[key])}`);
+  }
+  if (Array.isArray(json.contact)) {
+    for (const contact of json.contact) {
+      // older mints list contacts as [method, info] pairs
+      const [method, value] = Array.isArray(contact)
+        ? contact
+        : [contact?.method, contact?.info];
+      if (typeof method === "string" && typeof value === "string") {
+        info.contact.push({ method, info: value });
+      } else {
+        problems.push(`invalid contact: ${JSON.stringify(contact)}`);
+      }
+    }
+  } else if (json.contact !== undefined && json.contact !== null) {
+    problems.push(`contact is not a list: ${JSON.stringify(json.contact)}`);
+  }
+  if (json.nuts && typeof json.nuts === "object") {
+    info.nuts = json.nuts as Record<string, unknown>;
+  } else if (json.nuts !== undefined) {
+    problems.push(`nuts is not an object: ${JSON.stringify(json.nuts)}`);
+  }
+  return { info, problems };
+};
+
+const formatContacts = (info: MintInfo) =>
+  info.contact.map((contact) => `${contact.method}: ${contact.info}`)
+    .sort()
+    .join(", ");
+
+// Human readable descriptions of the changes worth announcing
+export const describeMintInfoChanges = (before: MintInfo, after: MintInfo) => {
+  const changes: string[] = [];
+  if (after.version && before.version !== after.version) {
+    changes.push(
+      `⬆️ Version ${before.version ?? "unknown"} -> ${after.version}`,
+    );
+  }
+  if (after.motd && before.motd !== after.motd) {
+    changes.push(`📢 New message of the day: ${after.motd}`);
+  }
+  if (formatContacts(before) !== formatContacts(after)) {
+    changes.push(
+      `📇 Contact details changed: ${formatContacts(after) || "none"}`,
+    );
+  }
+  if (before.pubkey && after.pubkey && before.pubkey !== after.pubkey) {
+    changes.push(`🔑 Mint pubkey rotated: ${after.pubkey}`);
+  }
+  return changes;
+};
@@ -1,3 +1,12 @@
+import {
+  expectDate,
+  expectNumber,
+  expectState,
+  expectString,
+  type State,
+  type Validator,
+} from "./validate.ts";
+
 export type Swap = {
   "id": number;
   "from_id": number;
@@ -8,6 +17,17 @@ export type Swap = {
   "fee": number;
   "created_at": string;
   "time_taken": number;
-  "state": "OK" | "UNKNOWN" | "ERROR";
+  "state": State;
   "error": null | string;
 };
+
+export const validateSwap: Validator = (swap) => [
+  ...["id", "from_id", "to_id", "amount", "fee", "time_taken"]
+    .flatMap((key) => expectNumber(swap, key)),
+  ...["from_url", "to_url"].flatMap((key) => expectString(swap, key)),
+  ...expectDate(swap, "created_at"),
+  ...expectState(swap, "state"),
+  ...(swap.error === null || typeof swap.error === "string"
+    ? []
+    : [`error is not a string: ${JSON.stringify(swap.error)}`]),
+];
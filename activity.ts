@@ -0,0 +1,173 @@
+import type { Mint } from "./Mint.ts";
+import { type SampleStorage, setupSampleLog } from "./samples.ts";
+
+export type ActivitySample = {
+  mint_id: number;
+  n_mints: number;
+  n_melts: number;
+  n_errors: number;
+  // ISO timestamp of the poll that first saw the counters
+  at: string;
+};
+
+export type ActivityOptions = {
+  // Ms without new mints or melts after which a mint counts as stalled
+  stallWindow: number;
+  // Share of the other active mints that must have moved in that time
+  movingShare: number;
+  // New errors between two polls that count as a jump
+  errorJump: number;
+  // Ms between two polls past which new errors aren't judged, as they
+  // piled up over downtime rather than since the last poll
+  maxPollGap: number;
+  // Ms of samples kept, the last one per mint always stays
+  retention: number;
+};
+
+export type ActivityRates = {
+  // Per hour over the requested window, null without enough history
+  mints: number | null;
+  melts: number | null;
+  errors: number | null;
+};
+
+export type ActivityChange = {
+  mint: Mint;
+  signal: "stalled" | "resumed" | "errors";
+  // Ms since the last mint or melt for stalls, new errors for jumps
+  value: number;
+};
+
+const dayMs = 24 * 60 * 60 * 1000;
+const hourMs = 60 * 60 * 1000;
+
+/**
+ * History of the n_mints, n_melts and n_errors counters, stored like the
+ * state history: a sample only when a counter changed. Detects mints whose
+ * counters stop while the others keep moving, and sudden error jumps.
+ */
+export const setupActivityMonitor = (
+  options: ActivityOptions,
+  storage: SampleStorage<ActivitySample>,
+) => {
+  const { byMint, add, compact } = setupSampleLog(storage, options.retention);
+  const stalled = new Set<number>();
+  // Set once the first check noted the stalls that were already there
+  let seeded = false;
+  // Error jumps seen by `record`, returned by the next `check`
+  let jumps: ActivityChange[] = [];
+  // When `record` last ran in this process
+  let lastRecord: number | null = null;
+
+  // Records the mints whose counters differ from their last sample
+  const record = (mints: Mint[], now = new Date()) => {
+    const samples: ActivitySample[] = [];
+    const afterGap = lastRecord === null ||
+      now.getTime() - lastRecord > options.maxPollGap;
+    lastRecord = now.getTime();
+    for (const mint of mints) {
+      const last = byMint.get(mint.id)?.at(-1);
+      if (
+        last?.n_mints === mint.n_mints && last.n_melts === mint.n_melts &&
+        last.n_errors === mint.n_errors
+      ) continue;
+      if (
+        last && !afterGap && mint.n_errors - last.n_errors >= options.errorJump
+      ) {
+        jumps.push({
+          mint,
+          signal: "errors",
+          value: mint.n_errors - last.n_errors,
+        });
+      }
+      samples.push({
+        mint_id: mint.id,
+        n_mints: mint.n_mints,
+        n_melts: mint.n_melts,
+        n_errors: mint.n_errors,
+        at: now.toISOString(),
+      });
+    }
+    add(samples, now.getTime());
+  };
+
+  // Counter increases per hour over the last `window` ms
+  const getRates = (
+    mintId: number,
+    window = dayMs,
+    now = Date.now(),
+  ): ActivityRates => {
+    const samples = byMint.get(mintId) ?? [];
+    const start = samples.filter((sample) =>
+      new Date(sample.at).getTime() <= now - window
+    ).at(-1);
+    const last = samples.at(-1);
+    if (!start || !last) return { mints: null, melts: null, errors: null };
+    const hours = window / hourMs;
+    return {
+      mints: (last.n_mints - start.n_mints) / hours,
+      melts: (last.n_melts - start.n_melts) / hours,
+      errors: (last.n_errors - start.n_errors) / hours,
+    };
+  };
+
+  // When the mint's mints or melts last went up, null if never seen moving
+  const lastMoved = (mintId: number) => {
+    const samples = byMint.get(mintId) ?? [];
+    for (let i = samples.length - 1; i > 0; i--) {
+      if (
+        samples[i].n_mints > samples[i - 1].n_mints ||
+        samples[i].n_melts > samples[i - 1].n_melts
+      ) return new Date(samples[i].at).getTime();
+    }
+    return null;
+  };
+
+  /**
+   * Re-evaluates every mint and returns the ones that stalled or started
+   * moving again since the previous check, and the error jumps recorded
+   * since then. A mint only stalls while most of the other mints that have
+   * been active moved within the stall window, so a quiet auditor doesn't
+   * flag every mint. The first check returns nothing.
+   */
+  const check = (mints: Mint[], now = Date.now()) => {
+    const moved = new Map(mints.map((mint) => [mint.id, lastMoved(mint.id)]));
+    const active = mints.filter((mint) => moved.get(mint.id) !== null);
+    const isMoving = (mint: Mint) =>
+      (moved.get(mint.id) ?? 0) > now - options.stallWindow;
+    const changes = jumps;
+    jumps = [];
+    for (const mint of active) {
+      const others = active.filter((other) => other.id !== mint.id);
+      const othersMoving = others.length > 0 &&
+        others.filter(isMoving).length >= others.length * options.movingShare;
+      const isNowStalled = isMoving(mint)
+        ? false
+        : stalled.has(mint.id) || othersMoving;
+      if (isNowStalled === stalled.has(mint.id)) continue;
+      if (isNowStalled) stalled.add(mint.id);
+      else stalled.delete(mint.id);
+      changes.push({
+        mint,
+        signal: isNowStalled ? "stalled" : "resumed",
+        value: now - (moved.get(mint.id) ?? now),
+      });
+    }
+    if (!seeded) {
+      seeded = true;
+      return [];
+    }
+    return changes;
+  };
+
+  const isStalled = (mintId: number) => stalled.has(mintId);
+
+  // Forgets the error jumps recorded so far, for polls whose alerts are off
+  const dropJumps = () => {
+    jumps = [];
+  };
+
+  return { record, getRates, check, isStalled, dropJumps, compact };
+};
+
+export type ActivityMonitor = ReturnType<typeof setupActivityMonitor>;
@@ -0,0 +1,93 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import type { History } from "./history.ts";
+import type { AuditHealth } from "./health.ts";
+import type { SwapIndex } from "./swaps.ts";
+import { isState } from "./validate.ts";
+
+export type ApiSource = {
+  // Latest mints from the audit API
+  mints: () => Mint[];
+  swapIndex: SwapIndex;
+  history: History;
+  auditHealth: AuditHealth;
+  // Prometheus text exposition of the bot's metrics
+  metrics: () => string;
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const error = (message: string, status: number) =>
+  json({ error: message }, status);
+
+// `limit` query parameter, between 1 and `max`
+const getLimit = (url: URL, fallback: number, max: number) => {
+  const limit = Number(url.searchParams.get("limit"));
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, max) : fallback;
+};
+
+/**
+ * Read-only JSON view of the bot's in-memory state, for `Deno.serve`:
+ * GET /mints, /mints/:id, /mints/:id/swaps, /swaps?state=ERROR and /health,
+ * and the Prometheus metrics at /metrics. Swap lists are newest first and
+ * take a `limit`.
+ */
+export const setupApi = (source: ApiSource) => {
+  const withUptime = (mint: Mint) => ({
+    ...mint,
+    uptime: source.history.uptimes(mint.id),
+  });
+
+  const findMint = (id: string) =>
+    source.mints().find((mint) => String(mint.id) === id);
+
+  const getSwaps = (url: URL) => {
+    const state = url.searchParams.get("state");
+    if (state !== null && !isState(state)) {
+      return error(`Unknown state ${state}`, 400);
+    }
+    const limit = getLimit(url, 100, 1000);
+    const swaps: Swap[] = [];
+    const all = source.swapIndex.after(0);
+    for (let i = all.length - 1; i >= 0 && swaps.length < limit; i--) {
+      if (!state || all[i].state === state) swaps.push(all[i]);
+    }
+    return json(swaps);
+  };
+
+  const handle = (request: Request) => {
+    if (request.method !== "GET") return error("Method not allowed", 405);
+    const url = new URL(request.url);
+    const parts = url.pathname.split("/").filter((part) => part);
+
+    if (parts[0] === "health" && parts.length === 1) {
+      return json(source.auditHealth.summary());
+    }
+    if (parts[0] === "swaps" && parts.length === 1) return getSwaps(url);
+    if (parts[0] === "metrics" && parts.length === 1) {
+      return new Response(source.metrics(), {
+        headers: { "Content-Type": "text/plain; version=0.0.4" },
+      });
+    }
+    if (parts[0] !== "mints" || parts.length > 3) {
+      return error("Not found", 404);
+    }
+    if (parts.length === 1) return json(source.mints().map(withUptime));
+
+    const mint = findMint(parts[1]);
+    if (!mint) return error(`Mint ${parts[1]} not found`, 404);
+    if (parts.length === 2) return json(withUptime(mint));
+    if (parts[2] !== "swaps") return error("Not found", 404);
+    return json(
+      source.swapIndex.latest(mint.id, getLimit(url, 10, 1000)),
+    );
+  };
+
+  return { handle };
+};
+
+export type Api = ReturnType<typeof setupApi>;
@@ -0,0 +1,142 @@
+import { type Mint, validateMint } from "./Mint.ts";
+import { type Swap, validateSwap } from "./Swap.ts";
+import { quarantine } from "./validate.ts";
+import { retry, type RetryOptions } from "./retry.ts";
+
+export type AuditClientOptions = RetryOptions & {
+  // Base URL of the audit API, without a trailing slash
+  baseUrl: string;
+  // Milliseconds before a single request is aborted
+  timeout: number;
+  // Number of records requested per page
+  pageSize: number;
+  // Called once per request, after its retries succeeded or gave up
+  onRequest?: (result: AuditRequestResult) => void;
+};
+
+export type AuditRequestResult = {
+  path: string;
+  ok: boolean;
+  // Milliseconds the last attempt took
+  duration: number;
+  error?: unknown;
+};
+
+export const defaultAuditUrl = "https://api.audit.8333.space";
+
+export const setupAuditClient = (options: AuditClientOptions) => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  const request = <T>(path: string): Promise<T> =>
+    retry(path, options, async (attempt) => {
+      const start = performance.now();
+      try {
+        const response = await fetch(`${baseUrl}${path}`, {
+          signal: AbortSignal.timeout(options.timeout),
+        });
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+        const json = await response.json();
+        options.onRequest?.({
+          path,
+          ok: true,
+          duration: performance.now() - start,
+        });
+        return json;
+      } catch (error) {
+        options.log(`Audit request ${path} failed:`, error);
+        if (attempt === options.retries) {
+          options.onRequest?.({
+            path,
+            ok: false,
+            duration: performance.now() - start,
+            error,
+          });
+        }
+        throw error;
+      }
+    });
+
+  /**
+   * Walks the paginated endpoint with `skip`/`limit` until `limit` records
+   * are collected, the API runs out of records or `done` returns true for
+   * the last page. Pages start at `firstPageSize` and double up to the
+   * configured page size, so short polls stay small.
+   */
+  const paginate = async (
+    path: string,
+    limit: number,
+    done: (page: unknown[]) => boolean = () => false,
+    firstPageSize = options.pageSize,
+  ) => {
+    const records: unknown[] = [];
+    let size = Math.min(firstPageSize, options.pageSize);
+    while (records.length < limit) {
+      const pageSize = Math.min(size, limit - records.length);
+      const page = await request<unknown[]>(
+        `${path}?skip=${records.length}&limit=${pageSize}`,
+      );
+      if (!Array.isArray(page)) {
+        throw new Error(`Expected a list from ${path}, got ${typeof page}`);
+      }
+      records.push(...page);
+      if (page.length < pageSize || done(page)) break;
+      size = Math.min(size * 2, options.pageSize);
+    }
+    return records;
+  };
+
+  /**
+   * Fetches the swaps newer than `cursor`. The API lists the newest swaps
+   * first, so paging stops as soon as a page reaches the cursor.
+   */
+  const getSwapsSince = async (cursor: number, limit = 1000) =>
+    quarantine<Swap>(
+      await paginate(
+        "/swaps/",
+        limit,
+        (page) =>
+          page.some((swap) => Number((swap as Swap | null)?.id) <= cursor),
+        100,
+      ),
+      validateSwap,
+      "swap",
+      options.log,
+    ).valid.filter((swap) => swap.id > cursor);
+
+  /**
+   * Fetches the swaps created at or after `since` ms, for digests reaching
+   * further back than the swap index. Paging stops at the first page
+   * reaching past `since`.
+   */
+  const getSwapsCreatedSince = async (since: number, limit = 100000) => {
+    const createdAt = (swap: unknown) =>
+      new Date((swap as Swap | null)?.created_at ?? 0).getTime();
+    return quarantine<Swap>(
+      await paginate(
+        "/swaps/",
+        limit,
+        (page) => page.some((swap) => createdAt(swap) < since),
+      ),
+      validateSwap,
+      "swap",
+      options.log,
+    ).valid.filter((swap) => createdAt(swap) >= since);
+  };
+
+  // The valid mints, and how many malformed ones were left out
+  const getMints = async (limit = 10000) => {
+    const { valid, rejected } = quarantine<Mint>(
+      await paginate("/mints/", limit),
+      validateMint,
+      "mint",
+      options.log,
+    );
+    return { mints: valid, rejected: rejected.length };
+  };
+
+  return { getSwapsSince, getSwapsCreatedSince, getMints };
+};
+
+export type AuditClient = ReturnType<typeof setupAuditClient>;
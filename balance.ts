@@ -0,0 +1,152 @@
+import type { Mint } from "./Mint.ts";
+import { type SampleStorage, setupSampleLog } from "./samples.ts";
+
+export type BalanceSample = {
+  mint_id: number;
+  balance: number;
+  sum_donations: number;
+  // ISO timestamp of the poll that first saw the values
+  at: string;
+};
+
+export type BalanceOptions = {
+  // Ms over which a balance drop counts as draining
+  drainWindow: number;
+  // Share of the highest balance within the window that must be gone
+  drainShare: number;
+  // Ms of samples kept, the last one per mint always stays
+  retention: number;
+};
+
+export type BalanceChange = {
+  mint: Mint;
+  status: "draining" | "empty" | "recovered";
+  // Highest balance within the drain window
+  previous: number;
+};
+
+export type Donation = {
+  mint_id: number;
+  amount: number;
+};
+
+/**
+ * History of mint balances and donation totals, stored like the state
+ * history: a sample only when either value changed. Flags audited mints
+ * whose balance drains quickly or runs out, as the auditor can't test them
+ * without sats.
+ */
+export const setupBalanceTracker = (
+  options: BalanceOptions,
+  storage: SampleStorage<BalanceSample>,
+) => {
+  const { byMint, add, compact } = setupSampleLog(storage, options.retention);
+  // Alerted status per mint and the balance it was alerted at
+  const alerts = new Map<
+    number,
+    { status: BalanceChange["status"]; balance: number }
+  >();
+  // The first check only takes in the current statuses, alerts aren't
+  // persisted and a restart must not announce them again
+  let seeded = false;
+
+  // Records the mints whose balance or donations differ from the last sample
+  const record = (mints: Mint[], now = new Date()) => {
+    const samples: BalanceSample[] = [];
+    for (const mint of mints) {
+      const last = byMint.get(mint.id)?.at(-1);
+      if (
+        last?.balance === mint.balance &&
+        last.sum_donations === mint.sum_donations
+      ) continue;
+      samples.push({
+        mint_id: mint.id,
+        balance: mint.balance,
+        sum_donations: mint.sum_donations,
+        at: now.toISOString(),
+      });
+    }
+    add(samples, now.getTime());
+  };
+
+  /**
+   * Highest balance since `from`, counting the one held when it started,
+   * and the lowest balance seen after that peak.
+   */
+  const rangeSince = (mintId: number, from: number) => {
+    const samples = byMint.get(mintId) ?? [];
+    let highest = 0;
+    let lowest = Infinity;
+    for (const [i, sample] of samples.entries()) {
+      const next = samples[i + 1];
+      if (next && new Date(next.at).getTime() <= from) continue;
+      if (sample.balance >= highest) {
+        highest = sample.balance;
+        lowest = Infinity;
+      }
+      lowest = Math.min(lowest, sample.balance);
+    }
+    return { highest, lowest };
+  };
+
+  // A refill after a drop isn't draining, only a balance still at its low
+  const statusOf = (mint: Mint, now: number) => {
+    const { highest, lowest } = rangeSince(
+      mint.id,
+      now - options.drainWindow,
+    );
+    if (mint.balance <= 0) return { status: "empty" as const, highest };
+    if (
+      mint.balance <= lowest &&
+      highest - mint.balance >= highest * options.drainShare
+    ) {
+      return { status: "draining" as const, highest };
+    }
+    return { status: null, highest };
+  };
+
+  /**
+   * Re-evaluates every mint and returns the ones that started draining,
+   * ran empty or got their balance back since the previous check. The
+   * first check reports nothing, it only notes which mints are already
+   * draining or empty. A draining mint only
+   * recovers once its balance grows again, not when the drop leaves the
+   * window.
+   */
+  const check = (mints: Mint[], now = Date.now()) => {
+    const changes: BalanceChange[] = [];
+    for (const mint of mints) {
+      const { status, highest } = statusOf(mint, now);
+      const alerted = alerts.get(mint.id);
+      if (status === (alerted?.status ?? null)) continue;
+      if (!status && alerted && mint.balance <= alerted.balance) continue;
+      if (status) alerts.set(mint.id, { status, balance: mint.balance });
+      else alerts.delete(mint.id);
+      changes.push({ mint, status: status ?? "recovered", previous: highest });
+    }
+    if (!seeded) {
+      seeded = true;
+      return [];
+    }
+    return changes;
+  };
+
+  // Increases of sum_donations per mint between the `from` and `to` ms
+  const donationsBetween = (from: number, to: number): Donation[] =>
+    [...byMint].flatMap(([mintId, samples]) => {
+      const before = samples.filter((sample) =>
+        new Date(sample.at).getTime() < from
+      ).at(-1);
+      const after = samples.filter((sample) =>
+        new Date(sample.at).getTime() < to
+      ).at(-1);
+      // a mint first seen during the period only counts from then on
+      const start = before ?? samples[0];
+      const amount = (after?.sum_donations ?? 0) - (start?.sum_donations ?? 0);
+      return amount > 0 ? [{ mint_id: mintId, amount }] : [];
+    });
+
+  return { record, check, donationsBetween, compact };
+};
+
+export type BalanceTracker = ReturnType<typeof setupBalanceTracker>;
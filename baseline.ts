@@ -0,0 +1,70 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import { createdBetween } from "./swaps.ts";
+
+// Shared by the monitors comparing a mint's recent swaps with its own past
+export type BaselineOptions = {
+  // Ms of swaps that count as recent
+  window: number;
+  // Ms of swaps before the recent ones that make up the baseline
+  baselineWindow: number;
+  // Minimum number of recent and baseline swaps for a verdict
+  minSwaps: number;
+};
+
+// The swaps of the recent window, and of the baseline window right before it
+export const splitWindows = (
+  swaps: Swap[],
+  options: BaselineOptions,
+  now: number,
+) => ({
+  recent: swaps.filter((swap) =>
+    createdBetween(swap, now - options.window, Infinity)
+  ),
+  baseline: swaps.filter((swap) =>
+    createdBetween(
+      swap,
+      now - options.window - options.baselineWindow,
+      now - options.window,
+    )
+  ),
+});
+
+// `stats` of the swaps of every from -> to pair, in no particular order
+export const getPairStats = <T>(swaps: Swap[], stats: (swaps: Swap[]) => T) => {
+  const pairs = new Map<string, Swap[]>();
+  for (const swap of swaps) {
+    const key = `${swap.from_url} -> ${swap.to_url}`;
+    pairs.set(key, [...(pairs.get(key) ?? []), swap]);
+  }
+  return [...pairs].map(([pair, swaps]) => ({ pair, ...stats(swaps) }));
+};
+
+/**
+ * The mints currently flagged by a monitor. `update` judges every mint,
+ * where null means too little data to tell and keeps the current verdict,
+ * and returns the mints whose verdict flipped. Verdicts only live in
+ * memory, so the first update takes them in without returning any.
+ */
+export const setupVerdicts = () => {
+  const flagged = new Set<number>();
+  let seeded = false;
+
+  const update = (mints: Mint[], judge: (mint: Mint) => boolean | null) => {
+    const changes: { mint: Mint; flagged: boolean }[] = [];
+    for (const mint of mints) {
+      const verdict = judge(mint);
+      if (verdict === null || verdict === flagged.has(mint.id)) continue;
+      if (verdict) flagged.add(mint.id);
+      else flagged.delete(mint.id);
+      changes.push({ mint, flagged: verdict });
+    }
+    if (!seeded) {
+      seeded = true;
+      return [];
+    }
+    return changes;
+  };
+
+  return { update, has: (mintId: number) => flagged.has(mintId) };
+};
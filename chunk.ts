@@ -0,0 +1,64 @@
+const encoder = new TextEncoder();
+
+// Size of the text as relays see it, in UTF-8 bytes
+export const byteLength = (text: string) => encoder.encode(text).length;
+
+// Hard-splits a single line longer than the limit, keeping code points whole
+const splitLine = (line: string, limit: number) => {
+  if (byteLength(line) <= limit) return [line];
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  return current ? [...parts, current] : parts;
+};
+
+// Splits a section longer than the limit on its lines
+const splitSection = (section: string, limit: number) => {
+  if (byteLength(section) <= limit) return [section];
+  const pieces: string[] = [];
+  let current: string | null = null;
+  for (const part of section.split("\n").flatMap((line) => splitLine(line, limit))) {
+    const candidate: string = current === null ? part : `${current}\n${part}`;
+    if (current !== null && byteLength(candidate) > limit) {
+      pieces.push(current);
+      current = part;
+    } else {
+      current = candidate;
+    }
+  }
+  return current === null ? pieces : [...pieces, current];
+};
+
+/**
+ * Packs the sections of a report (a mint, a failed swap, a header...) into
+ * as few posts as possible without any post exceeding `limit` bytes. A
+ * section only gets split when it can't fit in a post on its own.
+ */
+export const chunkSections = (
+  sections: string[],
+  limit: number,
+  separator = "\n\n",
+) => {
+  const posts: string[] = [];
+  let current = "";
+  const pieces = sections
+    .map((section) => section.trim())
+    .filter((section) => section)
+    .flatMap((section) => splitSection(section, limit));
+  for (const piece of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (current && byteLength(candidate) > limit) {
+      posts.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+  return current ? [...posts, current] : posts;
+};
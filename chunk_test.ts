@@ -0,0 +1,23 @@
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { byteLength, chunkSections } from "./chunk.ts";
+
+Deno.test("chunkSections packs sections into as few posts as fit", () => {
+  assertEquals(chunkSections(["aaa", "bbb", "ccc"], 8), ["aaa\n\nbbb", "ccc"]);
+});
+
+Deno.test("chunkSections limits posts in UTF-8 bytes", () => {
+  // 4 bytes per emoji, so 10 of them don't fit in 16 bytes
+  const posts = chunkSections(["🥜".repeat(10)], 16);
+  assertEquals(posts, ["🥜".repeat(4), "🥜".repeat(4), "🥜".repeat(2)]);
+  assert(posts.every((post) => byteLength(post) <= 16));
+});
+
+Deno.test("chunkSections splits a long section on its lines first", () => {
+  assertEquals(chunkSections(["line one\nline two"], 10), [
+    "line one",
+    "line two",
+  ]);
+});
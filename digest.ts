@@ -0,0 +1,188 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import type { History } from "./history.ts";
+import { formatPercent, formatSeconds, swapState } from "./format.ts";
+import { percentile } from "./stats.ts";
+import { getFeeStats, getPairFees } from "./fees.ts";
+import type { ErrorClassifier } from "./errors.ts";
+import type { BalanceTracker } from "./balance.ts";
+
+export const digestPeriods = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export type DigestPeriod = keyof typeof digestPeriods;
+
+export type DigestInput = {
+  period: DigestPeriod;
+  // End of the digest period, the start is `digestPeriods[period]` before it
+  end: Date;
+  mints: Mint[];
+  // Swaps since the start of the period, possibly fewer when fetching failed
+  swaps: Swap[];
+  history: History;
+  balances: BalanceTracker;
+  errorClassifier: ErrorClassifier;
+};
+
+/**
+ * Most recent time the digest was due: `hour` UTC every day for daily
+ * digests, and on `weekday` (0 is Sunday) at that hour for weekly ones.
+ */
+export const lastDigestDue = (
+  period: DigestPeriod,
+  hour: number,
+  weekday: number,
+  now = new Date(),
+) => {
+  const due = new Date(now);
+  due.setUTCHours(hour, 0, 0, 0);
+  if (due > now) due.setUTCDate(due.getUTCDate() - 1);
+  if (period === "weekly") {
+    due.setUTCDate(due.getUTCDate() - ((due.getUTCDay() - weekday + 7) % 7));
+  }
+  return due;
+};
+
+const successRate = (swaps: Swap[]) =>
+  swaps.length
+    ? swaps.filter((swap) => swap.state === "OK").length / swaps.length
+    : null;
+
+const formatFees = (swaps: Swap[]) => {
+  const fees = getFeeStats(swaps);
+  return `${(fees.mean ?? 0).toFixed(1)} sats average (${
+    formatPercent(fees.meanShare, 2)
+  } of the amount)`;
+};
+
+const getSwapSummary = (swaps: Swap[]) => {
+  const times = swaps.map((swap) => swap.time_taken);
+  const fees = getFeeStats(swaps);
+  return `Swaps: ${swaps.length} (${
+    formatPercent(successRate(swaps))
+  } successful)
+Fees: ${fees.total} sats total, ${formatFees(swaps)}, p90 ${
+    fees.p90 ?? "?"
+  } sats
+Time taken: p50 ${formatSeconds(percentile(times, 50))} · p90 ${
+    formatSeconds(percentile(times, 90))
+  } · p99 ${formatSeconds(percentile(times, 99))}`;
+};
+
+/**
+ * Builds the posts of a digest thread: an overview with the highest-fee
+ * pairs, the state changes and new or removed mints, thanks for new
+ * donations if there were any, then the swap statistics per mint.
+ */
+export const buildDigest = (
+  { period, end, mints, swaps, history, balances, errorClassifier }:
+    DigestInput,
+) => {
+  const start = end.getTime() - digestPeriods[period];
+  const periodSwaps = swaps.filter((swap) => {
+    const time = new Date(swap.created_at).getTime();
+    return time >= start && time < end.getTime();
+  });
+  const changes = history.changesSince(start)
+    .filter((change) => new Date(change.at).getTime() < end.getTime());
+  const historyStart = history.changesSince(0)[0]?.at;
+  // short of the period only when the older swaps couldn't be fetched
+  const oldestSwap = swaps.reduce<number | null>(
+    (oldest, swap) =>
+      Math.min(oldest ?? Infinity, new Date(swap.created_at).getTime()),
+    null,
+  );
+  const coverage = oldestSwap !== null && oldestSwap > start
+    ? `\n⚠️ Swap statistics only cover swaps since ${
+      new Date(oldestSwap).toISOString().slice(0, 16).replace("T", " ")
+    } UTC`
+    : "";
+  const names = new Map(mints.map((mint) => [mint.id, mint.name]));
+  const nameOf = (mintId: number) => names.get(mintId) ?? `Mint #${mintId}`;
+
+  const newMints = mints.filter((mint) => {
+    const firstSeen = history.firstSeen(mint.id);
+    return firstSeen && firstSeen !== historyStart &&
+      new Date(firstSeen).getTime() >= start;
+  });
+  const removedMints = changes.filter((change) => change.state === "REMOVED");
+  const stateChanges = changes.filter((change) =>
+    change.state !== "REMOVED" &&
+    !newMints.some((mint) => mint.id === change.mint_id)
+  );
+
+  const title = period === "daily" ? "Daily" : "Weekly";
+  const range = `${new Date(start).toISOString().slice(0, 10)} - ${
+    end.toISOString().slice(0, 10)
+  }`;
+  const errorCounts = errorClassifier.formatCounts(periodSwaps);
+  const feePairs = getPairFees(periodSwaps).slice(0, 3).map((pair) =>
+    `\n   ${pair.pair} ${(pair.mean ?? 0).toFixed(1)} sats (${
+      formatPercent(pair.meanShare, 2)
+    })`
+  ).join("");
+  const overview = `📊 ${title} Cashu Audit Digest ${range}${coverage}
+
+${getSwapSummary(periodSwaps)}
+Highest-fee pairs:${feePairs || " none"}
+Errors: ${errorCounts || "none 🎉"}
+Mints: ${mints.filter((mint) => mint.state === "OK").length}/${mints.length} OK
+State changes: ${stateChanges.length}
+New mints: ${newMints.length} · Removed mints: ${removedMints.length}`;
+
+  const changeList = [
+    ...stateChanges.map((change) =>
+      `${swapState[change.state as Mint["state"]]} ${
+        nameOf(change.mint_id)
+      } ${change.state} at ${change.at.slice(0, 16).replace("T", " ")}`
+    ),
+    ...newMints.map((mint) => `⭐ ${mint.name} - ${mint.url} (new!)`),
+    ...removedMints.map((change) => `👋 ${nameOf(change.mint_id)} removed`),
+  ];
+  const changesPost = `State changes\n\n${
+    changeList.length ? changeList.join("\n") : "No changes, all quiet 😴"
+  }`;
+
+  const donations = balances.donationsBetween(start, end.getTime())
+    .sort((a, b) => b.amount - a.amount);
+  const donationsPost = `🙏 Thanks for donations\n\n${
+    donations.map((donation) =>
+      `${nameOf(donation.mint_id)}: +${donation.amount} sats`
+    ).join("\n")
+  }\nTotal: ${
+    donations.reduce((total, donation) => total + donation.amount, 0)
+  } sats`;
+
+  const perMint = mints
+    .map((mint) => ({
+      mint,
+      swaps: periodSwaps.filter((swap) =>
+        swap.from_id === mint.id || swap.to_id === mint.id
+      ),
+    }))
+    .filter(({ swaps }) => swaps.length)
+    .sort((a, b) => (successRate(a.swaps) ?? 0) - (successRate(b.swaps) ?? 0))
+    .map(({ mint, swaps }) =>
+      `${swapState[mint.state]} ${mint.name}: ${swaps.length} swaps, ${
+        formatPercent(successRate(swaps))
+      } successful, p50 ${
+        formatSeconds(percentile(swaps.map((swap) => swap.time_taken), 50))
+      }, fees ${formatFees(swaps.filter((swap) => swap.from_id === mint.id))}${
+        errorClassifier.formatCounts(swaps)
+          ? `\n   Errors: ${errorClassifier.formatCounts(swaps)}`
+          : ""
+      }`
+    );
+  const mintsPost = `Swaps per mint\n\n${
+    perMint.length ? perMint.join("\n") : "No swaps this period"
+  }\n\nHelp support Round Robin Cashu Audit! https://audit.8333.space/`;
+
+  return [
+    overview,
+    changesPost,
+    ...(donations.length ? [donationsPost] : []),
+    mintsPost,
+  ];
+};
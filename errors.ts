@@ -0,0 +1,84 @@
+import type { Swap } from "./Swap.ts";
+
+// Regular expressions (case insensitive) per error category
+export type ErrorPatterns = Record<string, string[]>;
+
+export const unclassified = "unclassified";
+
+export const defaultErrorPatterns: ErrorPatterns = {
+  "timeout": ["timed? ?out", "deadline exceeded"],
+  "lightning routing": [
+    "no route",
+    "route not found",
+    "unable to find a path",
+    "routing",
+    "payment (failed|error)",
+  ],
+  "insufficient balance": [
+    "insufficient (balance|funds)",
+    "not enough (balance|funds)",
+    "balance too low",
+  ],
+  "keyset or token": [
+    "keyset",
+    "already spent",
+    "invalid (proof|token|signature)",
+    "token",
+  ],
+  "connection refused": [
+    "connection refused",
+    "econnrefused",
+    "failed to connect",
+    "cannot connect",
+    "connect(ion)? error",
+  ],
+};
+
+// Custom categories first, then the defaults they don't replace
+export const mergeErrorPatterns = (custom: ErrorPatterns): ErrorPatterns => ({
+  ...custom,
+  ...Object.fromEntries(
+    Object.entries(defaultErrorPatterns).filter(([category]) =>
+      !(category in custom)
+    ),
+  ),
+});
+
+/**
+ * Maps free text swap errors to categories, first matching category wins.
+ * Errors matching nothing end up in the unclassified bucket.
+ */
+export const setupErrorClassifier = (patterns: ErrorPatterns) => {
+  const compiled = Object.entries(patterns).map(([category, sources]) => ({
+    category,
+    regexes: sources.map((source) => new RegExp(source, "i")),
+  }));
+
+  // Category of the swap's error, null for swaps without an error
+  const classify = (swap: Swap) => {
+    if (swap.state === "OK" && !swap.error) return null;
+    const error = swap.error ?? "";
+    return compiled.find(({ regexes }) =>
+      regexes.some((regex) => regex.test(error))
+    )?.category ?? unclassified;
+  };
+
+  // Failed swaps per category, most frequent first
+  const countByCategory = (swaps: Swap[]) => {
+    const counts = new Map<string, number>();
+    for (const swap of swaps) {
+      const category = classify(swap);
+      if (category) counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+    return [...counts].sort((a, b) => b[1] - a[1]);
+  };
+
+  const formatCounts = (swaps: Swap[]) =>
+    countByCategory(swaps)
+      .map(([category, count]) => `${category} ${count}`)
+      .join(" · ");
+
+  return { classify, countByCategory, formatCounts };
+};
+
+export type ErrorClassifier = ReturnType<typeof setupErrorClassifier>;
@@ -0,0 +1,121 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import type { StateChange } from "./history.ts";
+import { escapeXml, swapState } from "./format.ts";
+
+export type FeedEntry = {
+  // Stable across regenerations, derived from what the entry is about
+  id: string;
+  title: string;
+  // ISO timestamp of the change or swap
+  updated: string;
+  link: string;
+  content: string;
+};
+
+export type FeedInput = {
+  changes: StateChange[];
+  swaps: Swap[];
+  // Current and previously seen mints, to name and link removed ones too
+  mints: Mint[];
+  limit: number;
+};
+
+const feedId = "tag:audit.8333.space,2024:status";
+const siteUrl = "https://audit.8333.space/";
+const title = "Cashu Audit Status";
+
+/**
+ * Entries for the state changes and failed swaps, newest first and at most
+ * `limit` of them. Everything comes from the stored history and swaps, so
+ * the feed can be rebuilt from scratch at any time.
+ */
+export const buildFeedEntries = (
+  { changes, swaps, mints, limit }: FeedInput,
+): FeedEntry[] => {
+  const byId = new Map(mints.map((mint) => [mint.id, mint]));
+  // a mint's first recorded state is where its history starts, not a change
+  const seen = new Set<number>();
+  const stateEntries = changes.filter((change) => {
+    if (seen.has(change.mint_id)) return true;
+    seen.add(change.mint_id);
+    return false;
+  }).map((change) => {
+    const mint = byId.get(change.mint_id);
+    const name = mint?.name ?? `Mint #${change.mint_id}`;
+    return {
+      id: `${feedId}:state:${change.mint_id}:${change.at}`,
+      title: change.state === "REMOVED"
+        ? `👋 ${name} was removed`
+        : `${swapState[change.state]} ${name} is ${change.state}`,
+      updated: new Date(change.at).toISOString(),
+      link: mint?.url ?? siteUrl,
+      content: `${name} (${
+        mint?.url ?? "unknown URL"
+      }) changed to ${change.state}`,
+    };
+  });
+  const swapEntries = swaps
+    .filter((swap) => swap.state !== "OK")
+    .map((swap) => ({
+      id: `${feedId}:swap:${swap.id}`,
+      title: `🚨 Failed swap ${swap.from_url} -> ${swap.to_url}`,
+      updated: new Date(swap.created_at).toISOString(),
+      link: swap.from_url,
+      content: `${swapState[swap.state]} ${swap.amount} sats (${swap.fee} sat${
+        swap.fee === 1 ? "" : "s"
+      } fee) from ${swap.from_url} to ${swap.to_url}${
+        swap.error ? `: ${swap.error}` : ""
+      }`,
+    }));
+  return [...stateEntries, ...swapEntries]
+    .sort((a, b) => b.updated.localeCompare(a.updated))
+    .slice(0, limit);
+};
+
+export const renderAtom = (entries: FeedEntry[], now = new Date()) =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${feedId}</id>
+  <title>${title}</title>
+  <link href="${siteUrl}"/>
+  <updated>${entries[0]?.updated ?? now.toISOString()}</updated>
+  <author><name>Round Robin Cashu Audit</name></author>
+${
+    entries.map((entry) =>
+      `  <entry>
+    <id>${escapeXml(entry.id)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <updated>${entry.updated}</updated>
+    <link href="${escapeXml(entry.link)}"/>
+    <content type="text">${escapeXml(entry.content)}</content>
+  </entry>
+`
+    ).join("")
+  }</feed>
+`;
+
+export const renderRss = (entries: FeedEntry[], now = new Date()) =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0">
+  <channel>
+    <title>${title}</title>
+    <link>${siteUrl}</link>
+    <description>Mint state changes and failed swaps</description>
+    <lastBuildDate>${
+    new Date(entries[0]?.updated ?? now).toUTCString()
+  }</lastBuildDate>
+${
+    entries.map((entry) =>
+      `    <item>
+      <guid isPermaLink="false">${escapeXml(entry.id)}</guid>
+      <title>${escapeXml(entry.title)}</title>
+      <pubDate>${new Date(entry.updated).toUTCString()}</pubDate>
+      <link>${escapeXml(entry.link)}</link>
+      <description>${escapeXml(entry.content)}</description>
+    </item>
+`
+    ).join("")
+  }  </channel>
+</rss>
+`;
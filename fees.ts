@@ -0,0 +1,101 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import { mean, percentile, sum } from "./stats.ts";
+import {
+  type BaselineOptions,
+  getPairStats,
+  setupVerdicts,
+  splitWindows,
+} from "./baseline.ts";
+
+export type FeeStats = {
+  count: number;
+  total: number;
+  // Average fee in sats
+  mean: number | null;
+  p90: number | null;
+  // Average fee as a share of the amount swapped
+  meanShare: number | null;
+};
+
+export type FeeOptions = BaselineOptions & {
+  // How many times the usual average fee share counts as an anomaly
+  factor: number;
+  // And by how many sats the average fee must have grown at least
+  minIncrease: number;
+};
+
+export const getFeeStats = (swaps: Swap[]): FeeStats => {
+  const fees = swaps.map((swap) => swap.fee);
+  return {
+    count: swaps.length,
+    total: sum(fees),
+    mean: mean(fees),
+    p90: percentile(fees, 90),
+    meanShare: mean(
+      swaps
+        .filter((swap) => swap.amount > 0)
+        .map((swap) => swap.fee / swap.amount),
+    ),
+  };
+};
+
+// Stats per from -> to pair, highest average fee share first
+export const getPairFees = (swaps: Swap[]) =>
+  getPairStats(swaps, getFeeStats)
+    .sort((a, b) => (b.meanShare ?? 0) - (a.meanShare ?? 0));
+
+/**
+ * Fee statistics per mint, and detection of mints whose fees jumped far
+ * above their own norm. A mint's fees are the fees of the swaps it sent,
+ * as the sending mint pays for the lightning payment.
+ */
+export const setupFeeMonitor = (options: FeeOptions) => {
+  const anomalies = setupVerdicts();
+
+  // Recent and baseline swaps of the ones the mint sent among `swaps`
+  const getSentWindows = (mintId: number, swaps: Swap[], now: number) =>
+    splitWindows(
+      swaps.filter((swap) => swap.from_id === mintId),
+      options,
+      now,
+    );
+
+  // `swaps` are the swaps involving the mint, only the ones it sent count
+  const getMintFees = (mintId: number, swaps: Swap[], now = Date.now()) => {
+    const { recent, baseline } = getSentWindows(mintId, swaps, now);
+    return { recent: getFeeStats(recent), baseline: getFeeStats(baseline) };
+  };
+
+  const isAnomaly = ({ recent, baseline }: ReturnType<typeof getMintFees>) =>
+    baseline.count >= options.minSwaps &&
+    recent.mean !== null && baseline.mean !== null &&
+    recent.mean - baseline.mean >= options.minIncrease &&
+    (recent.meanShare ?? 0) > (baseline.meanShare ?? 0) * options.factor;
+
+  /**
+   * Re-evaluates every mint and returns the ones whose fees jumped or got
+   * back to normal since the previous check, none on the first check.
+   */
+  const check = (
+    mints: Mint[],
+    swapsOf: (mintId: number) => Swap[],
+    now = Date.now(),
+  ) =>
+    anomalies.update(mints, (mint) => {
+      const fees = getMintFees(mint.id, swapsOf(mint.id), now);
+      return fees.recent.count < options.minSwaps ? null : isAnomaly(fees);
+    }).map(({ mint, flagged }) => {
+      const swaps = swapsOf(mint.id);
+      return {
+        mint,
+        anomaly: flagged,
+        fees: getMintFees(mint.id, swaps, now),
+        pairs: getPairFees(getSentWindows(mint.id, swaps, now).recent),
+      };
+    });
+
+  return { getMintFees, check };
+};
+
+export type FeeMonitor = ReturnType<typeof setupFeeMonitor>;
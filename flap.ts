@@ -0,0 +1,84 @@
+import type { Mint } from "./Mint.ts";
+import type { History } from "./history.ts";
+import type { State } from "./validate.ts";
+
+export type HysteresisOptions = {
+  // Consecutive polls a new state must hold before it's announced
+  polls: number;
+  // Or how long it must hold, in ms, whichever comes first
+  duration: number;
+  // State changes within `flapWindow` ms that mark a mint as flapping
+  flapChanges: number;
+  flapWindow: number;
+};
+
+/**
+ * Decides which mint state changes are worth announcing. A state has to
+ * hold for a while before it's announced, and mints that keep changing
+ * state are reported as flapping instead of once per change. Each channel
+ * (public posts, DMs...) tracks what it already announced separately.
+ */
+export const setupStateTracker = (
+  options: HysteresisOptions,
+  history: History,
+  announcedMints: Mint[],
+) => {
+  const channels = new Map<string, Map<number, State>>();
+  const announced = (channel: string) => {
+    if (!channels.has(channel)) {
+      channels.set(
+        channel,
+        new Map(announcedMints.map((mint) => [mint.id, mint.state])),
+      );
+    }
+    return channels.get(channel)!;
+  };
+  const candidates = new Map<
+    number,
+    { state: State; polls: number; since: number }
+  >();
+
+  // Feeds the states seen by a poll
+  const observe = (mints: Mint[], now = Date.now()) => {
+    for (const mint of mints) {
+      const candidate = candidates.get(mint.id);
+      if (candidate?.state === mint.state) candidate.polls++;
+      else candidates.set(mint.id, { state: mint.state, polls: 1, since: now });
+    }
+  };
+
+  const isStable = (mint: Mint, now: number) => {
+    const candidate = candidates.get(mint.id);
+    return !!candidate && candidate.state === mint.state &&
+      (candidate.polls >= options.polls ||
+        now - candidate.since >= options.duration);
+  };
+
+  const isFlapping = (mint: Mint, now: number) =>
+    history.transitions(mint.id, now - options.flapWindow).length >=
+      options.flapChanges;
+
+  /**
+   * Mints whose settled state differs from the last announced one, and
+   * the mints currently flapping, which are left out of `changed`.
+   */
+  const pending = (mints: Mint[], channel = "nostr", now = Date.now()) => {
+    const flapping = mints.filter((mint) => isFlapping(mint, now));
+    const changed = mints.filter((mint) =>
+      announced(channel).get(mint.id) !== mint.state && isStable(mint, now) &&
+      !flapping.includes(mint)
+    );
+    return { changed, flapping };
+  };
+
+  const markAnnounced = (mints: Mint[], channel = "nostr") =>
+    mints.forEach((mint) => announced(channel).set(mint.id, mint.state));
+
+  // Last state announced on the channel, undefined for mints never announced
+  const lastAnnounced = (mintId: number, channel = "nostr") =>
+    announced(channel).get(mintId);
+
+  return { observe, pending, markAnnounced, lastAnnounced };
+};
+
+export type StateTracker = ReturnType<typeof setupStateTracker>;
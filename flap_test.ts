@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import type { Mint } from "./Mint.ts";
+import { setupHistory } from "./history.ts";
+import { setupStateTracker } from "./flap.ts";
+
+const options = {
+  polls: 3,
+  duration: 10 * 60 * 1000,
+  flapChanges: 3,
+  flapWindow: 60 * 60 * 1000,
+};
+
+const mint = (state: Mint["state"]) => ({ id: 1, state } as Mint);
+
+const setup = () => {
+  const history = setupHistory(
+    { load: () => [], append: () => {}, save: () => {} },
+    24 * 60 * 60 * 1000,
+  );
+  return {
+    history,
+    tracker: setupStateTracker(options, history, [mint("OK")]),
+  };
+};
+
+Deno.test("a new state is announced once it held for enough polls", () => {
+  const { tracker } = setup();
+  const now = Date.now();
+  for (let poll = 1; poll <= 3; poll++) {
+    tracker.observe([mint("ERROR")], now + poll * 60000);
+    const { changed } = tracker.pending(
+      [mint("ERROR")],
+      "nostr",
+      now + poll * 60000,
+    );
+    assertEquals(changed.length, poll === 3 ? 1 : 0);
+  }
+});
+
+Deno.test("a new state is announced once it held long enough", () => {
+  const { tracker } = setup();
+  const now = Date.now();
+  tracker.observe([mint("ERROR")], now);
+  assertEquals(tracker.pending([mint("ERROR")], "nostr", now).changed, []);
+  const later = now + options.duration;
+  assertEquals(
+    tracker.pending([mint("ERROR")], "nostr", later).changed.length,
+    1,
+  );
+});
+
+Deno.test("a mint changing state too often is flapping, not changed", () => {
+  const { history, tracker } = setup();
+  const now = Date.now();
+  for (
+    const [i, state] of (["OK", "ERROR", "OK", "ERROR"] as const).entries()
+  ) {
+    history.record([mint(state)], new Date(now - (4 - i) * 60000));
+  }
+  tracker.observe([mint("ERROR")], now - options.duration);
+  const { changed, flapping } = tracker.pending([mint("ERROR")], "nostr", now);
+  assertEquals(changed, []);
+  assertEquals(flapping.map((flapper) => flapper.id), [1]);
+});
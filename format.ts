@@ -0,0 +1,17 @@
+export const swapState = {
+  OK: "✅",
+  UNKNOWN: "❓",
+  ERROR: "❌",
+};
+
+export const formatPercent = (share: number | null, digits = 1) =>
+  share === null ? "?" : `${(share * 100).toFixed(digits)}%`;
+
+// Swap durations, time_taken is in seconds
+export const formatSeconds = (seconds: number | null) =>
+  seconds === null ? "?" : `${seconds.toFixed(1)}s`;
+
+// For text and attribute values in the generated SVG, feed and HTML files
+export const escapeXml = (text: string) =>
+  text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
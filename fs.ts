@@ -1,6 +1,25 @@
 import type { Mint } from "./Mint.ts";
+import type { StateChange } from "./history.ts";
+import type { DigestPeriod } from "./digest.ts";
+import type { Subscriptions } from "./subscriptions.ts";
+import type { ErrorPatterns } from "./errors.ts";
+import type { BalanceSample } from "./balance.ts";
+import type { ActivitySample } from "./activity.ts";
 
 const lastMintsPath = `${Deno.cwd()}/mints.json`;
+const watermarkPath = `${Deno.cwd()}/watermark.json`;
+const historyPath = `${Deno.cwd()}/history.jsonl`;
+const digestsPath = `${Deno.cwd()}/digests.json`;
+const subscriptionsPath = `${Deno.cwd()}/subscriptions.json`;
+const matrixPath = `${Deno.cwd()}/matrix`;
+const balancesPath = `${Deno.cwd()}/balances.jsonl`;
+const activityPath = `${Deno.cwd()}/activity.jsonl`;
+const feedPath = `${Deno.cwd()}/feed`;
+
+export type Watermark = {
+    id: number;
+    created_at: string;
+};
 
 export const getSavedMints = () => {
     const mints = Deno.readTextFileSync(lastMintsPath);
@@ -9,4 +28,101 @@ export const getSavedMints = () => {
 
 export const saveMints = (mints: Mint[]) => {
     Deno.writeTextFileSync(lastMintsPath, JSON.stringify(mints));
-}
\ No newline at end of file
+}
+
+// The last swap that was processed, null until the first poll completes
+export const getWatermark = () => {
+    try {
+        return JSON.parse(Deno.readTextFileSync(watermarkPath)) as Watermark;
+    } catch (_) {
+        return null;
+    }
+};
+
+export const saveWatermark = (watermark: Watermark) => {
+    Deno.writeTextFileSync(watermarkPath, JSON.stringify(watermark));
+};
+
+// One record per line, so new ones can be appended without a rewrite
+const getJsonlStorage = <T>(path: string) => ({
+    load: () => {
+        try {
+            return Deno.readTextFileSync(path)
+                .split("\n")
+                .filter((line) => line.trim())
+                .map((line) => JSON.parse(line) as T);
+        } catch (_) {
+            return [];
+        }
+    },
+    append: (records: T[]) => {
+        if (!records.length) return;
+        Deno.writeTextFileSync(
+            path,
+            records.map((record) => JSON.stringify(record) + "\n").join(""),
+            { append: true },
+        );
+    },
+    save: (records: T[]) => {
+        Deno.writeTextFileSync(
+            path,
+            records.map((record) => JSON.stringify(record) + "\n").join(""),
+        );
+    },
+});
+
+export const historyStorage = getJsonlStorage<StateChange>(historyPath);
+export const balancesStorage = getJsonlStorage<BalanceSample>(balancesPath);
+export const activityStorage = getJsonlStorage<ActivitySample>(activityPath);
+
+// When each digest was last sent, as the ISO time it was due
+export const getDigestsSent = () => {
+    try {
+        return JSON.parse(
+            Deno.readTextFileSync(digestsPath),
+        ) as Partial<Record<DigestPeriod, string>>;
+    } catch (_) {
+        return {};
+    }
+};
+
+export const saveDigestsSent = (sent: Partial<Record<DigestPeriod, string>>) => {
+    Deno.writeTextFileSync(digestsPath, JSON.stringify(sent));
+};
+
+export const getSubscriptions = () => {
+    try {
+        return JSON.parse(Deno.readTextFileSync(subscriptionsPath)) as Subscriptions;
+    } catch (_) {
+        return {};
+    }
+};
+
+export const saveSubscriptions = (subscriptions: Subscriptions) => {
+    Deno.writeTextFileSync(subscriptionsPath, JSON.stringify(subscriptions));
+};
+
+// Custom error categories, see defaultErrorPatterns in errors.ts for the format
+export const getErrorPatterns = (path: string) => {
+    return JSON.parse(Deno.readTextFileSync(path)) as ErrorPatterns;
+};
+
+// Swap success matrix as matrix.csv, matrix.json and matrix.svg
+export const saveSwapMatrix = (
+    exports: { csv: string; json: string; svg: string },
+) => {
+    Deno.writeTextFileSync(`${matrixPath}.csv`, exports.csv);
+    Deno.writeTextFileSync(`${matrixPath}.json`, exports.json);
+    Deno.writeTextFileSync(`${matrixPath}.svg`, exports.svg);
+};
+
+// Written as feed.atom or feed.rss
+export const saveFeed = (format: "atom" | "rss", xml: string) => {
+    Deno.writeTextFileSync(`${feedPath}.${format}`, xml);
+};
+
+// index.html in `dir`, which is created if it doesn't exist yet
+export const saveStatusPage = (dir: string, html: string) => {
+    Deno.mkdirSync(dir, { recursive: true });
+    Deno.writeTextFileSync(`${dir}/index.html`, html);
+};
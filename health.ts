@@ -0,0 +1,108 @@
+import type { Mint } from "./Mint.ts";
+import type { AuditRequestResult } from "./audit.ts";
+import { mean } from "./stats.ts";
+
+export type AuditHealthOptions = {
+  // Consecutive failed requests before the audit data counts as unavailable
+  failureThreshold: number;
+  // Ms past the latest `next_update` before the audit data counts as stale
+  staleAfter: number;
+};
+
+export type AuditStatus = {
+  available: boolean;
+  // Why the data is unavailable, null while it's available
+  reason: string | null;
+  // Since when the status holds
+  since: string;
+};
+
+/**
+ * Tracks the health of the audit API, so an outage or an auditor that
+ * stopped updating doesn't look like "no failures".
+ */
+export const setupAuditHealth = (options: AuditHealthOptions) => {
+  let consecutiveFailures = 0;
+  let lastError: string | null = null;
+  let lastSuccess: string | null = null;
+  let latestNextUpdate: number | null = null;
+  let latestUpdate: number | null = null;
+  const durations: number[] = [];
+  let status: AuditStatus = {
+    available: true,
+    reason: null,
+    since: new Date().toISOString(),
+  };
+
+  // Feed to the audit client's onRequest option
+  const recordRequest = (result: AuditRequestResult) => {
+    if (result.ok) {
+      consecutiveFailures = 0;
+      lastSuccess = new Date().toISOString();
+      durations.push(result.duration);
+      if (durations.length > 100) durations.shift();
+    } else {
+      consecutiveFailures++;
+      lastError = result.error instanceof Error
+        ? result.error.message
+        : String(result.error);
+    }
+  };
+
+  const recordMints = (mints: Mint[]) => {
+    if (!mints.length) return;
+    latestUpdate = Math.max(
+      ...mints.map((mint) => new Date(mint.updated_at).getTime()),
+    );
+    latestNextUpdate = Math.max(
+      ...mints.map((mint) => new Date(mint.next_update).getTime()),
+    );
+  };
+
+  const getUnavailableReason = (now: number) => {
+    if (consecutiveFailures >= options.failureThreshold) {
+      return `the audit API failed ${consecutiveFailures} requests in a row (${lastError})`;
+    }
+    if (
+      latestNextUpdate !== null && now - latestNextUpdate > options.staleAfter
+    ) {
+      return `the audit data is stale, the last update was at ${
+        new Date(latestUpdate ?? latestNextUpdate).toISOString()
+          .slice(0, 16).replace("T", " ")
+      } UTC`;
+    }
+    return null;
+  };
+
+  /**
+   * Re-evaluates the status, returning it only when it changed since the
+   * previous check.
+   */
+  const check = (now = Date.now()) => {
+    const reason = getUnavailableReason(now);
+    if ((reason === null) === status.available) return null;
+    const previous = status;
+    status = {
+      available: reason === null,
+      reason,
+      since: new Date(now).toISOString(),
+    };
+    return { status, previous };
+  };
+
+  // Status as of the latest check
+  const isAvailable = () => status.available;
+
+  const summary = () => ({
+    ...status,
+    consecutiveFailures,
+    lastError,
+    lastSuccess,
+    averageResponseTime: mean(durations),
+    lastResponseTime: durations[durations.length - 1] ?? null,
+  });
+
+  return { recordRequest, recordMints, check, isAvailable, summary };
+};
+
+export type AuditHealth = ReturnType<typeof setupAuditHealth>;
@@ -0,0 +1,114 @@
+import type { Mint } from "./Mint.ts";
+import type { State } from "./validate.ts";
+import { type SampleStorage, setupSampleLog } from "./samples.ts";
+
+export type StateChange = {
+  mint_id: number;
+  // REMOVED marks a mint that disappeared from the audit API
+  state: State | "REMOVED";
+  // ISO timestamp of the poll that first saw the state
+  at: string;
+};
+
+export const uptimeWindows = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+export type UptimeWindow = keyof typeof uptimeWindows;
+
+/**
+ * Append-only history of mint state transitions. Only changes are stored,
+ * so the state of a mint at any time is the last change before it.
+ * Changes older than `retention` ms are compacted away once a day, keeping
+ * the last one per mint so uptime windows still know the starting state.
+ */
+export const setupHistory = (
+  storage: SampleStorage<StateChange>,
+  retention: number,
+) => {
+  const { byMint, add, compact } = setupSampleLog(storage, retention);
+
+  /**
+   * Records the mints whose state differs from their last known state, and
+   * known mints missing from `mints` as REMOVED unless `mints` may be
+   * incomplete.
+   */
+  const record = (mints: Mint[], now = new Date(), complete = true) => {
+    const at = now.toISOString();
+    const seen = new Set(mints.map((mint) => mint.id));
+    const changes: StateChange[] = [
+      ...mints
+        .filter((mint) => stateOf(mint.id) !== mint.state)
+        .map((mint) => ({ mint_id: mint.id, state: mint.state, at })),
+      ...[...byMint.keys()]
+        .filter((mintId) => complete && !seen.has(mintId))
+        .filter((mintId) => stateOf(mintId) !== "REMOVED")
+        .map((mintId) => ({ mint_id: mintId, state: "REMOVED" as const, at })),
+    ];
+    add(changes, now.getTime());
+    return changes;
+  };
+
+  const transitions = (mintId: number, since = 0) =>
+    (byMint.get(mintId) ?? []).filter((change) =>
+      new Date(change.at).getTime() >= since
+    );
+
+  // State of the mint at `time`, undefined before it was first seen
+  const stateOf = (mintId: number, time = Date.now()) =>
+    (byMint.get(mintId) ?? [])
+      .findLast((change) => new Date(change.at).getTime() <= time)?.state;
+
+  /**
+   * Share of the window the mint was OK, between 0 and 1. Time before the
+   * mint was first seen or after it was removed doesn't count, null when
+   * nothing is known.
+   */
+  const uptime = (mintId: number, window: number, now = Date.now()) => {
+    const changes = byMint.get(mintId) ?? [];
+    const start = now - window;
+    let known = 0;
+    let ok = 0;
+    changes.forEach((change, i) => {
+      const from = Math.max(new Date(change.at).getTime(), start);
+      const next = changes[i + 1];
+      const to = Math.min(next ? new Date(next.at).getTime() : now, now);
+      if (to <= from || change.state === "REMOVED") return;
+      known += to - from;
+      if (change.state === "OK") ok += to - from;
+    });
+    return known ? ok / known : null;
+  };
+
+  const uptimes = (mintId: number, now = Date.now()) =>
+    Object.fromEntries(
+      Object.entries(uptimeWindows).map((
+        [name, window],
+      ) => [name, uptime(mintId, window, now)]),
+    ) as Record<UptimeWindow, number | null>;
+
+  // Changes of every mint at or after `since`, oldest first
+  const changesSince = (since: number) =>
+    [...byMint.values()]
+      .flat()
+      .filter((change) => new Date(change.at).getTime() >= since)
+      .sort((a, b) => a.at.localeCompare(b.at));
+
+  // First time the mint was seen, undefined if it never was
+  const firstSeen = (mintId: number) => byMint.get(mintId)?.[0]?.at;
+
+  return {
+    record,
+    transitions,
+    changesSince,
+    firstSeen,
+    stateOf,
+    uptime,
+    uptimes,
+    compact,
+  };
+};
+
+export type History = ReturnType<typeof setupHistory>;
@@ -0,0 +1,97 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import { percentile } from "./stats.ts";
+import {
+  type BaselineOptions,
+  getPairStats,
+  setupVerdicts,
+  splitWindows,
+} from "./baseline.ts";
+
+export type LatencyStats = {
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+};
+
+export type LatencyOptions = BaselineOptions & {
+  // How many times slower than the baseline counts as degraded
+  factor: number;
+};
+
+// time_taken percentiles of the successful swaps
+export const getLatencyStats = (swaps: Swap[]): LatencyStats => {
+  const times = swaps
+    .filter((swap) => swap.state === "OK")
+    .map((swap) => swap.time_taken);
+  return {
+    count: times.length,
+    p50: percentile(times, 50),
+    p90: percentile(times, 90),
+    p99: percentile(times, 99),
+  };
+};
+
+/**
+ * Rolling latency statistics per mint and per mint pair, and detection of
+ * mints whose successful swaps got much slower than their own baseline.
+ */
+export const setupLatencyMonitor = (options: LatencyOptions) => {
+  const degraded = setupVerdicts();
+
+  // `swaps` are the swaps involving the mint
+  const getMintLatency = (swaps: Swap[], now = Date.now()) => {
+    const { recent, baseline } = splitWindows(swaps, options, now);
+    return {
+      recent: getLatencyStats(recent),
+      baseline: getLatencyStats(baseline),
+    };
+  };
+
+  // Recent stats per from -> to pair, slowest p50 first
+  const getPairLatencies = (swaps: Swap[], now = Date.now()) =>
+    getPairStats(splitWindows(swaps, options, now).recent, getLatencyStats)
+      .filter((pair) => pair.count)
+      .sort((a, b) => (b.p50 ?? 0) - (a.p50 ?? 0));
+
+  const isDegraded = (
+    { recent, baseline }: ReturnType<typeof getMintLatency>,
+  ) =>
+    recent.count >= options.minSwaps && baseline.count >= options.minSwaps &&
+    recent.p50 !== null && baseline.p50 !== null &&
+    recent.p50 > baseline.p50 * options.factor;
+
+  /**
+   * Re-evaluates every mint and returns the ones that became degraded or
+   * recovered since the previous check, none on the first check.
+   */
+  const check = (
+    mints: Mint[],
+    swapsOf: (mintId: number) => Swap[],
+    now = Date.now(),
+  ) =>
+    degraded.update(mints, (mint) => {
+      const latency = getMintLatency(swapsOf(mint.id), now);
+      return latency.recent.count < options.minSwaps
+        ? null
+        : isDegraded(latency);
+    }).map(({ mint, flagged }) => {
+      const swaps = swapsOf(mint.id);
+      return {
+        mint,
+        degraded: flagged,
+        latency: getMintLatency(swaps, now),
+        pairs: getPairLatencies(swaps, now),
+      };
+    });
+
+  return {
+    getMintLatency,
+    getPairLatencies,
+    check,
+    isDegraded: degraded.has,
+  };
+};
+
+export type LatencyMonitor = ReturnType<typeof setupLatencyMonitor>;
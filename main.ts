@@ -1,13 +1,133 @@
-import { getSavedMints, saveMints } from "./fs.ts";
-import { Mint } from "./Mint.ts";
-import { Nostr } from "./nostr/nostr.ts";
-import Relay from "./nostr/relay.ts";
+import {
+  activityStorage,
+  balancesStorage,
+  getDigestsSent,
+  getErrorPatterns,
+  getSavedMints,
+  getSubscriptions,
+  getWatermark,
+  historyStorage,
+  saveDigestsSent,
+  saveFeed,
+  saveStatusPage,
+  saveMints,
+  saveSubscriptions,
+  saveSwapMatrix,
+  saveWatermark,
+} from "./fs.ts";
+import { Mint, validateMint } from "./Mint.ts";
+import { Nostr, NostrMessage } from "./nostr/nostr.ts";
+import Relay, { NostrEvent } from "./nostr/relay.ts";
 import * as env from "https://deno.land/std@0.224.0/dotenv/mod.ts";
 import { Swap } from "./Swap.ts";
 import { setupLog } from "./log.ts";
+import { defaultAuditUrl, setupAuditClient } from "./audit.ts";
+import { quarantine } from "./validate.ts";
+import { setupSwapIndex } from "./swaps.ts";
+import { setupHistory } from "./history.ts";
+import { formatPercent, formatSeconds, swapState } from "./format.ts";
+import {
+  buildDigest,
+  type DigestPeriod,
+  digestPeriods,
+  lastDigestDue,
+} from "./digest.ts";
+import { chunkSections } from "./chunk.ts";
+import { setupStateTracker } from "./flap.ts";
+import { setupSubscriptions } from "./subscriptions.ts";
+import { setupProber } from "./probe.ts";
+import { type AuditStatus, setupAuditHealth } from "./health.ts";
+import { setupLatencyMonitor } from "./latency.ts";
+import { setupFeeMonitor } from "./fees.ts";
+import {
+  defaultErrorPatterns,
+  mergeErrorPatterns,
+  setupErrorClassifier,
+} from "./errors.ts";
+import {
+  describeMintInfoChanges,
+  type MintInfo,
+  parseMintInfo,
+} from "./MintInfo.ts";
+import {
+  buildSwapMatrix,
+  findCulprit,
+  matrixToCsv,
+  matrixToJson,
+  matrixToSvg,
+} from "./matrix.ts";
+import { setupBalanceTracker } from "./balance.ts";
+import { setupActivityMonitor } from "./activity.ts";
+import { buildFeedEntries, renderAtom, renderRss } from "./feed.ts";
+import { renderStatusPage } from "./statuspage.ts";
+import { setupApi } from "./api.ts";
+import { setupMetrics } from "./metrics.ts";
+import {
+  alertKinds,
+  type AlertKind,
+  parseAlertKinds,
+  setupNotifier,
+  setupWebhookSink,
+  type Sink,
+} from "./notifier.ts";
 
 
-const { NOSTR_PRIVATE_KEY, DEBUG, RELAYS } = await env.load();
+const {
+  NOSTR_PRIVATE_KEY,
+  DEBUG,
+  RELAYS,
+  AUDIT_API_URL,
+  AUDIT_TIMEOUT,
+  AUDIT_RETRIES,
+  AUDIT_RETRY_DELAY,
+  AUDIT_PAGE_SIZE,
+  CATCHUP_LIMIT,
+  CATCHUP_MAX_AGE,
+  SWAP_INDEX_SIZE,
+  HISTORY_RETENTION,
+  DIGESTS,
+  DIGEST_HOUR,
+  DIGEST_WEEKDAY,
+  MAX_POST_LENGTH,
+  STATE_CONFIRM_POLLS,
+  STATE_CONFIRM_MINUTES,
+  FLAP_CHANGES,
+  FLAP_WINDOW,
+  DM_COMMANDS,
+  HASHTAGS,
+  PROBE_MINTS,
+  PROBE_TIMEOUT,
+  AUDIT_FAILURE_THRESHOLD,
+  AUDIT_STALE_MINUTES,
+  LATENCY_WINDOW,
+  LATENCY_BASELINE_DAYS,
+  LATENCY_FACTOR,
+  LATENCY_MIN_SWAPS,
+  FEE_WINDOW,
+  FEE_BASELINE_DAYS,
+  FEE_FACTOR,
+  FEE_MIN_INCREASE,
+  FEE_MIN_SWAPS,
+  ERROR_PATTERNS_FILE,
+  BALANCE_DRAIN_HOURS,
+  BALANCE_DRAIN_PERCENT,
+  STALL_HOURS,
+  STALL_MOVING_PERCENT,
+  ERROR_JUMP,
+  NOSTR_ALERTS,
+  WEBHOOK_URL,
+  WEBHOOK_SECRET,
+  WEBHOOK_ALERTS,
+  WEBHOOK_TIMEOUT,
+  NOTIFY_RETRIES,
+  NOTIFY_RETRY_DELAY,
+  FEED_ENTRIES,
+  FEED_RSS,
+  STATUS_PAGE_DIR,
+  STATUS_PAGE_INCIDENT_DAYS,
+  API_PORT,
+  API_HOSTNAME,
+} = await env.load();
 const debug = !!DEBUG;
 const log = setupLog(debug);
 if (!NOSTR_PRIVATE_KEY) {
@@ -18,60 +138,136 @@ if (!RELAYS) {
   log("RELAYS not found in .env file");
   Deno.exit(1);
 }
-const swapState = {
-  OK: "✅",
-  UNKNOWN: "❓",
-  ERROR: "❌",
-};
-
-const getSwaps = async () => {
-  const newSwaps: Swap[] = await fetch(
-    "https://api.audit.8333.space/swaps/?limit=1000",
-  ).then((r) => r.json()).catch(() => []);
-  const sortedSwaps = newSwaps.sort((a, b) =>
-    new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-  );
-  return sortedSwaps;
+const auditHealth = setupAuditHealth({
+  failureThreshold: Number(AUDIT_FAILURE_THRESHOLD) || 5,
+  staleAfter: (Number(AUDIT_STALE_MINUTES) || 30) * 60 * 1000,
+});
+const metrics = setupMetrics();
+
+const audit = setupAuditClient({
+  baseUrl: AUDIT_API_URL || defaultAuditUrl,
+  timeout: Number(AUDIT_TIMEOUT) || 10000,
+  retries: Number(AUDIT_RETRIES ?? 2) || 0,
+  retryDelay: Number(AUDIT_RETRY_DELAY) || 1000,
+  pageSize: Number(AUDIT_PAGE_SIZE) || 1000,
+  log,
+  onRequest: (result) => {
+    auditHealth.recordRequest(result);
+    metrics.observeAuditRequest(result);
+  },
+});
+// Cross-checks the auditor by calling the mints directly
+const prober = PROBE_MINTS
+  ? setupProber({ timeout: Number(PROBE_TIMEOUT) || 5000, log })
+  : null;
+const getProbeVerdict = (mintId: number) => prober?.verdict(mintId) ?? "";
+// How many swaps may be fetched to close the gap after downtime
+const catchupLimit = Number(CATCHUP_LIMIT) || 10000;
+// Swaps older than this many hours are skipped instead of announced
+const catchupMaxAge = (Number(CATCHUP_MAX_AGE) || 24) * 60 * 60 * 1000;
+
+// t tags added to every post
+const hashtags = (HASHTAGS ?? "cashu").split(" ").filter((hashtag) => hashtag)
+  .map((hashtag) => hashtag.replace(/^#/, "").toLowerCase());
+// Longest note in bytes, longer reports are split into a thread
+const maxPostLength = Number(MAX_POST_LENGTH) || 4000;
+const swapIndex = setupSwapIndex(Number(SWAP_INDEX_SIZE) || 20000);
+
+// Fetches the swaps after the newest indexed one and returns them, oldest first
+const fetchNewSwaps = async () => {
+  const newSwaps: Swap[] = await audit
+    .getSwapsSince(swapIndex.lastId(), catchupLimit)
+    .catch(() => []);
+  const added = swapIndex.add(newSwaps);
+  metrics.observeSwaps(added);
+  return added;
+};
+
+await fetchNewSwaps();
+
+const getLast10Swaps = (mintId: number) => swapIndex.latest(mintId, 10);
+
+let swapMatrix = buildSwapMatrix([], []);
+
+// Rebuilt from the whole swap index and exported after every poll
+const updateSwapMatrix = (mints: Mint[]) => {
+  swapMatrix = buildSwapMatrix(swapIndex.after(0), mints);
+  saveSwapMatrix({
+    csv: matrixToCsv(swapMatrix),
+    json: matrixToJson(swapMatrix),
+    svg: matrixToSvg(swapMatrix),
+  });
+};
+
+// Which side of the failed swap the matrix blames, empty when it can't tell
+const getCulpritLine = (swap: Swap) => {
+  const result = findCulprit(swapMatrix, swap.from_id, swap.to_id);
+  if (!result) return "";
+  const url = result.culprit === "sender" ? swap.from_url : swap.to_url;
+  return `\n🔎 Likely culprit: ${url} (${swap.from_url} sends ${
+    formatPercent(result.senderRate)
+  } OK to other mints, ${swap.to_url} receives ${
+    formatPercent(result.receiverRate)
+  } OK from other mints)`;
 };
 
-let allSwaps = await getSwaps();
+const latencyMonitor = setupLatencyMonitor({
+  window: (Number(LATENCY_WINDOW) || 60) * 60 * 1000,
+  baselineWindow: (Number(LATENCY_BASELINE_DAYS) || 7) * 24 * 60 * 60 * 1000,
+  factor: Number(LATENCY_FACTOR) || 3,
+  minSwaps: Number(LATENCY_MIN_SWAPS) || 5,
+});
 
-const getLast10Swaps = (mintId: number) => {
-  return allSwaps
-    .sort((a, b) =>
-      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-    )
-    .filter((swap) => swap.from_id === mintId || swap.to_id === mintId)
-    .slice(0, 10);
+const feeMonitor = setupFeeMonitor({
+  window: (Number(FEE_WINDOW) || 60) * 60 * 1000,
+  baselineWindow: (Number(FEE_BASELINE_DAYS) || 7) * 24 * 60 * 60 * 1000,
+  factor: Number(FEE_FACTOR) || 3,
+  minIncrease: Number(FEE_MIN_INCREASE) || 2,
+  minSwaps: Number(FEE_MIN_SWAPS) || 5,
+});
+
+const errorClassifier = setupErrorClassifier(
+  ERROR_PATTERNS_FILE
+    ? mergeErrorPatterns(getErrorPatterns(ERROR_PATTERNS_FILE))
+    : defaultErrorPatterns,
+);
+
+// Error category of the swap in brackets, empty for successful swaps
+const getErrorTag = (swap: Swap) => {
+  const category = errorClassifier.classify(swap);
+  return category ? `[${category}]` : "";
+};
+
+const getErrorCounts = (swaps: Swap[]) => {
+  const counts = errorClassifier.formatCounts(swaps);
+  return counts ? `\nErrors: ${counts}` : "";
 };
 
-const getFailedSwapsMessage = (failedSwaps: Swap[]) => {
-  let msg = "";
-  failedSwaps.forEach((swap) => {
+const getSwapLine = (s: Swap) =>
+  `${swapState[s.state]} ${s.from_url} -> ${s.to_url} at ${s.created_at.replace("T", " ")} ${
+    getErrorTag(s)
+  }`;
+
+// One section per failed swap and per list of recent swaps, for the chunker
+const getFailedSwapsSections = (failedSwaps: Swap[]) =>
+  failedSwaps.flatMap((swap) => {
     const swapsFromMint = getLast10Swaps(swap.from_id);
     const swapsToMint = getLast10Swaps(swap.to_id);
-    msg += `🚨 New Failed Swap for ${swap.amount} sats (${swap.fee} sat${swap.fee === 1 ? "" : "s"} fee) at ${swap.created_at.replace("T", " ")}\n${swapState[swap.state]} ${swap.from_url} -> ${swap.to_url} ${
-      swap.error || ""
-    }\n`;
-    msg += `\nLast 10 swaps involving ${swap.from_url} (Success rate ${
-      swapsFromMint.filter((s) => s.state === "OK").length
-    }/${swapsFromMint.length}):\n`;
-    msg += swapsFromMint.map((s) =>
-      `${swapState[s.state]} ${s.from_url} -> ${s.to_url} at ${s.created_at.replace("T", " ")} ${
-        s.error || ""
-      }`
-    ).join("\n");
-    msg += `\n\nLast 10 swaps involving ${swap.to_url} (Success rate ${
-      swapsToMint.filter((s) => s.state === "OK").length
-    }/${swapsToMint.length}):\n`;
-    msg += swapsToMint.map((s) =>
-      `${swapState[s.state]} ${s.from_url} -> ${s.to_url} at ${s.created_at.replace("T", " ")} ${
-        s.error || ""
-      }`
-    ).join("\n");
+    const probes = prober
+      ? `\n${swap.from_url} ${getProbeVerdict(swap.from_id)}\n${swap.to_url} ${getProbeVerdict(swap.to_id)}`
+      : "";
+    return [
+      `🚨 New Failed Swap for ${swap.amount} sats (${swap.fee} sat${swap.fee === 1 ? "" : "s"} fee) at ${swap.created_at.replace("T", " ")}\n${swapState[swap.state]} ${swap.from_url} -> ${swap.to_url} ${
+        getErrorTag(swap)
+      }${probes}${getCulpritLine(swap)}`,
+      `Last 10 swaps involving ${swap.from_url} (Success rate ${
+        swapsFromMint.filter((s) => s.state === "OK").length
+      }/${swapsFromMint.length}):${getErrorCounts(swapsFromMint)}\n${swapsFromMint.map(getSwapLine).join("\n")}`,
+      `Last 10 swaps involving ${swap.to_url} (Success rate ${
+        swapsToMint.filter((s) => s.state === "OK").length
+      }/${swapsToMint.length}):${getErrorCounts(swapsToMint)}\n${swapsToMint.map(getSwapLine).join("\n")}`,
+    ];
   });
-  return msg;
-};
 
 
 const nostr = new Nostr();
@@ -92,28 +288,151 @@ nostr.on(
   (relay: Relay) => log("Relay connected.", relay.name),
 );
 nostr.on("relayError", (err: Error, relay: Relay | null) => log("Relay error;", err, relay?.name));
+nostr.on(
+  "relayConnected",
+  (relay: Relay) => metrics.setRelayConnected(relay.url ?? "", true),
+);
+nostr.on(
+  "relayDisconnected",
+  (relay: Relay) => metrics.setRelayConnected(relay.url ?? "", false),
+);
+nostr.on(
+  "relayPublished",
+  (_event: NostrEvent, status: boolean, relay: Relay) =>
+    metrics.observePublish(relay.url ?? "", status),
+);
 nostr.on("relayNotice", (notice: string[]) => log("Notice", notice));
 
 nostr.debugMode = debug;
+// DM commands need the relays to stay connected between posts
+const dmCommands = !!DM_COMMANDS;
+nostr.autoReconnect = dmCommands;
 
 await nostr.connect();
-await nostr.disconnect();
+if (dmCommands) nostr.subscribeDirectMessages();
+else await nostr.disconnect();
+
+const history = setupHistory(
+  historyStorage,
+  (Number(HISTORY_RETENTION) || 30) * 24 * 60 * 60 * 1000,
+);
+
+const balanceTracker = setupBalanceTracker(
+  {
+    drainWindow: (Number(BALANCE_DRAIN_HOURS) || 24) * 60 * 60 * 1000,
+    drainShare: (Number(BALANCE_DRAIN_PERCENT) || 50) / 100,
+    retention: (Number(HISTORY_RETENTION) || 30) * 24 * 60 * 60 * 1000,
+  },
+  balancesStorage,
+);
+
+const activityMonitor = setupActivityMonitor(
+  {
+    stallWindow: (Number(STALL_HOURS) || 6) * 60 * 60 * 1000,
+    movingShare: (Number(STALL_MOVING_PERCENT) || 50) / 100,
+    errorJump: Number(ERROR_JUMP) || 10,
+    maxPollGap: 2 * 60 * 1000,
+    retention: (Number(HISTORY_RETENTION) || 30) * 24 * 60 * 60 * 1000,
+  },
+  activityStorage,
+);
+
+const feedEntries = Number(FEED_ENTRIES) || 50;
+const feedRss = !!FEED_RSS;
+
+// Rebuilt from the history and the swap index after every poll
+const updateFeeds = () => {
+  const entries = buildFeedEntries({
+    changes: history.changesSince(0),
+    swaps: swapIndex.after(0),
+    mints: [...oldMints, ...latestMints],
+    limit: feedEntries,
+  });
+  saveFeed("atom", renderAtom(entries));
+  if (feedRss) saveFeed("rss", renderRss(entries));
+};
 
-let oldMints: Mint[] = getSavedMints();
-let threadMessages: string[] = [];
+const statusPageDir = (STATUS_PAGE_DIR ?? "./status").replace(/\/+$/, "");
+const incidentWindow = (Number(STATUS_PAGE_INCIDENT_DAYS) || 7) * 24 * 60 *
+  60 * 1000;
 
+// Same data as the mint report, written after every poll
+const updateStatusPage = () => {
+  if (!statusPageDir) return;
+  saveStatusPage(
+    statusPageDir,
+    renderStatusPage({
+      mints: latestMints,
+      history,
+      swapsOf: getLast10Swaps,
+      errorClassifier,
+      incidentWindow,
+    }),
+  );
+};
+
+const formatRate = (rate: number | null) =>
+  rate === null ? "?" : rate.toFixed(1);
+
+const getActivityLine = (mint: Mint) => {
+  const rates = activityMonitor.getRates(mint.id);
+  return `Activity 24h per hour: ${formatRate(rates.mints)} mints · ${
+    formatRate(rates.melts)
+  } melts · ${formatRate(rates.errors)} errors${
+    activityMonitor.isStalled(mint.id) ? " 💤 stalled" : ""
+  }`;
+};
+
+const getUptimeLine = (mint: Mint) => {
+  const uptimes = history.uptimes(mint.id);
+  return `Uptime 24h ${formatPercent(uptimes["24h"])} · 7d ${
+    formatPercent(uptimes["7d"])
+  } · 30d ${formatPercent(uptimes["30d"])}`;
+};
+
+let oldMints: Mint[] =
+  quarantine<Mint>(getSavedMints(), validateMint, "saved mint", log).valid;
+
+const stateTracker = setupStateTracker({
+  polls: Number(STATE_CONFIRM_POLLS) || 3,
+  duration: (Number(STATE_CONFIRM_MINUTES) || 5) * 60 * 1000,
+  flapChanges: Number(FLAP_CHANGES) || 4,
+  flapWindow: (Number(FLAP_WINDOW) || 60) * 60 * 1000,
+}, history, oldMints);
+
+const mintInfos = new Map<
+  number,
+  { raw: string | null; info: MintInfo | null }
+>();
+
+// Parsed info of the mint, only parsed again when the raw JSON changes
+const getMintInfo = (mint: Mint) => {
+  const cached = mintInfos.get(mint.id);
+  if (cached?.raw === mint.info) return cached.info;
+  const { info, problems } = parseMintInfo(mint.info);
+  if (problems.length) log(`Problems in the info of ${mint.name}:`, problems);
+  mintInfos.set(mint.id, { raw: mint.info, info });
+  return info;
+};
+
+oldMints.forEach(getMintInfo);
+
+// Announceable info changes per mint since the previous poll
+const getMintInfoChanges = (mints: Mint[]) =>
+  mints.flatMap((mint) => {
+    const before = mintInfos.get(mint.id)?.info;
+    const after = getMintInfo(mint);
+    if (!before || !after || before === after) return [];
+    const changes = describeMintInfoChanges(before, after);
+    return changes.length ? [{ mint, changes }] : [];
+  });
+
+// NIP-27 reference to the operator's npub, so the post notifies them
 const getNpub = (mint: Mint) => {
-  try {
-    const info: { contact: { method: string; info: string }[] } = JSON.parse(
-      mint.info,
-    );
-    const npub = info.contact.find((contact) =>
-      contact.method === "nostr"
-    )?.info || "";
-    return npub.length > 10 ? npub : "";
-  } catch (_) {
-    return "";
-  }
+  const npub = (getMintInfo(mint)?.contact.find((contact) =>
+    contact.method === "nostr"
+  )?.info || "").trim().replace(/^nostr:/, "");
+  return /^npub1[02-9ac-hj-np-z]{58}$/.test(npub) ? `nostr:${npub}` : "";
 };
 
 const getPercentOfOKMints = (mints: Mint[]) =>
@@ -124,15 +443,10 @@ const getPercentOfOKMints = (mints: Mint[]) =>
     ).toFixed(0)
   }% of ${mints.length} mints are OK`;
 
-const getChangedMints = (mints: Mint[]) =>
+const getChangedMints = (changed: Mint[], flapping: Mint[]) =>
   [
     ...new Set(
-      mints
-        .filter(
-          (mint) =>
-            mint.state !==
-              oldMints.find((oldMint) => oldMint.id === mint.id)?.state,
-        )
+      changed
         .sort((a, b) => {
           const stateOrder = { OK: 0, UNKNOWN: 1, ERROR: 2 };
           return stateOrder[a.state] - stateOrder[b.state];
@@ -141,77 +455,556 @@ const getChangedMints = (mints: Mint[]) =>
           (mint) =>
             `${mint.state === "OK" ? "🆙" : "🚨"} ${mint.name} ${
               mint.state === "OK" ? "seems OK! See below." : "might have problems! See below."
-            } ${getNpub(mint)}`,
+            } ${getProbeVerdict(mint.id)} ${getNpub(mint)}`,
         ),
     ),
+    ...(flapping.length
+      ? [`🔁 Flapping, waiting for these to settle: ${flapping.map((mint) => mint.name).join(", ")}`]
+      : []),
   ].join("\n");
 
-const checkMints = async () => {
+const fetchMints = async () => {
+  try {
+    const { mints, rejected } = await audit.getMints(10000);
+    // a mint that failed validation isn't gone, nor is every mint when
+    // the list comes back empty
+    history.record(mints, new Date(), !rejected && mints.length > 0);
+    balanceTracker.record(mints);
+    activityMonitor.record(mints);
+    stateTracker.observe(mints);
+    auditHealth.recordMints(mints);
+    return mints;
+  } catch (error) {
+    log("ERROR: ", error);
+    return null;
+  }
+};
+
+// Sections of the mint report: the overview, one per mint and the footer
+const checkMints = (mints: Mint[] | null) => {
+  if (!mints) return [];
   try {
-    const response = await fetch("https://api.audit.8333.space/mints/?limit=10000");
-    const mints: Mint[] = await response.json();
     if (oldMints.length === 0) {
       // first run
       oldMints = mints;
       saveMints(mints);
+      stateTracker.markAnnounced(mints);
     }
     const mintList = mints
       .map(
         (mint) =>
-          `${swapState[mint.state]} ${mint.name} - ${mint.url} ${
+          `${swapState[mint.state]}${latencyMonitor.isDegraded(mint.id) ? "🐢" : ""} ${mint.name} - ${mint.url} ${getProbeVerdict(mint.id)} ${
             oldMints.some((oldMint) => oldMint.id === mint.id) ? "" : " ⭐ (new!)"
           }
-Last 10 swaps for ${mint.name}
-${getLast10Swaps(mint.id).map((s) => `${swapState[s.state]} ${s.from_url} -> ${s.to_url} at ${s.created_at.replace("T", " ")} ${s.error || ""}`).join("\n")}    
-
-`,
+${getUptimeLine(mint)}
+${getActivityLine(mint)}
+Last 10 swaps for ${mint.name}${getErrorCounts(getLast10Swaps(mint.id))}
+${getLast10Swaps(mint.id).map(getSwapLine).join("\n")}`,
       )
       
-    const changes = getChangedMints(mints);
-    const nostrMsg = `${changes ? `Mint Status Changes\n\n${changes}` : ""}
-${getPercentOfOKMints(mints)}
-
-${mintList.join("\n\n")}
-
-Help support Round Robin Cashu Audit! https://audit.8333.space/`;
+    const { changed, flapping } = stateTracker.pending(mints);
+    const changes = getChangedMints(changed, flapping);
+    stateTracker.markAnnounced(changed);
+    const sections = [
+      `${changes ? `Mint Status Changes\n\n${changes}\n` : ""}${getPercentOfOKMints(mints)}`,
+      ...mintList,
+      "Help support Round Robin Cashu Audit! https://audit.8333.space/",
+    ];
     oldMints = mints;
     saveMints(mints);
-    return nostrMsg;
+    return sections;
   } catch (error) {
     log("ERROR: ", error);
-    return "";
+    return [];
+  }
+};
+
+// r tags for the mints a post mentions, so alerts can be found by mint
+const getTags = (content: string) => [
+  ...latestMints
+    .filter((mint) => content.includes(mint.url))
+    .map((mint) => ["r", mint.url]),
+  ...hashtags.map((hashtag) => ["t", hashtag]),
+];
+
+// Sends the posts as a thread, or as a single note when there's only one
+const publish = async (posts: string[]) => {
+  if (!posts.length) return;
+  if (!dmCommands) await nostr.reconnect();
+  try {
+    if (posts.length > 1) await nostr.sendThreadPost(posts, getTags);
+    else await nostr.sendTextPost(posts[0], getTags(posts[0]));
+  } finally {
+    if (!dmCommands) await nostr.disconnect();
+  }
+};
+
+let latestMints = oldMints;
+
+// State changes already go out in the mint report of the failed-swap thread
+const nostrSink: Sink = {
+  name: "nostr",
+  kinds: parseAlertKinds(
+    NOSTR_ALERTS ||
+      alertKinds.filter((kind) => kind !== "state_change").join(" "),
+  ),
+  // sendThreadPost consumes the list it's given
+  send: (alert) => publish([...alert.posts]),
+};
+
+const notifier = setupNotifier(
+  [
+    nostrSink,
+    ...(WEBHOOK_URL
+      ? [setupWebhookSink({
+        url: WEBHOOK_URL,
+        secret: WEBHOOK_SECRET,
+        kinds: parseAlertKinds(WEBHOOK_ALERTS),
+        timeout: Number(WEBHOOK_TIMEOUT) || 10000,
+      })]
+      : []),
+  ],
+  {
+    retries: Number(NOTIFY_RETRIES ?? 2) || 0,
+    retryDelay: Number(NOTIFY_RETRY_DELAY) || 1000,
+    log,
+  },
+);
+
+const notify = (
+  kind: AlertKind,
+  mints: Mint[],
+  posts: string[],
+  data?: Record<string, unknown>,
+) =>
+  notifier.notify({
+    kind,
+    at: new Date().toISOString(),
+    mints: mints.map(({ id, name, url }) => ({ id, name, url })),
+    posts,
+    data,
+  });
+
+const subscriptions = setupSubscriptions({
+  load: getSubscriptions,
+  save: saveSubscriptions,
+});
+
+nostr.on("directMessage", async (message: NostrMessage) => {
+  log("Direct message from", message.sender, message.content);
+  const reply = subscriptions.handleCommand(
+    message.sender,
+    message.content,
+    latestMints,
+  );
+  await nostr.sendDirectMessage(message.sender, reply).catch(log);
+});
+
+// DMs `text` to everyone subscribed to any of the mints
+const notifySubscribers = async (mintIds: number[], text: string) => {
+  if (!dmCommands) return;
+  for (const pubkey of subscriptions.subscribersOf(...mintIds)) {
+    await nostr.sendDirectMessage(pubkey, text).catch(log);
+  }
+};
+
+// DMs subscribers about settled state changes since their last notification
+const notifyStateChanges = async (mints: Mint[]) => {
+  const { changed } = stateTracker.pending(mints, "dm");
+  for (const mint of changed) {
+    if (stateTracker.lastAnnounced(mint.id, "dm") === undefined) continue;
+    await notifySubscribers(
+      [mint.id],
+      `${mint.state === "OK" ? "🆙" : "🚨"} ${mint.name} is now ${mint.state} ${getProbeVerdict(mint.id)}\n${mint.url}`,
+    );
+  }
+  stateTracker.markAnnounced(changed, "dm");
+};
+
+/**
+ * Raises a state_change alert for settled state changes on every poll. The
+ * Nostr sink skips these by default, as the failed-swap thread reports them.
+ */
+const alertStateChanges = async (mints: Mint[]) => {
+  const { changed } = stateTracker.pending(mints, "alerts");
+  const known = changed.filter((mint) =>
+    stateTracker.lastAnnounced(mint.id, "alerts") !== undefined
+  );
+  stateTracker.markAnnounced(changed, "alerts");
+  if (!known.length) return;
+  await notify("state_change", known, [getChangedMints(known, [])], {
+    changes: known.map((mint) => ({ mint_id: mint.id, state: mint.state })),
+  });
+};
+
+/**
+ * Posts the changes as one thread under `title` and DMs each one to the
+ * subscribers of its mint. The alert data lists `toData` of every change
+ * along with its mint id.
+ */
+const announce = async <T extends { mint: Mint }>(
+  kind: AlertKind,
+  title: string,
+  changes: T[],
+  render: (change: T) => string,
+  toData: (change: T) => Record<string, unknown>,
+) => {
+  if (!changes.length) return;
+  const sections = changes.map(render);
+  for (const [i, { mint }] of changes.entries()) {
+    await notifySubscribers([mint.id], sections[i]);
+  }
+  await notify(
+    kind,
+    changes.map(({ mint }) => mint),
+    chunkSections([title, ...sections], maxPostLength),
+    {
+      changes: changes.map((change) => ({
+        mint_id: change.mint.id,
+        ...toData(change),
+      })),
+    },
+  );
+};
+
+// Posts and DMs version upgrades, new MOTDs, contact and pubkey changes
+const announceMintInfoChanges = (
+  infoChanges: ReturnType<typeof getMintInfoChanges>,
+) =>
+  announce(
+    "mint_info",
+    "Mint Info Changes",
+    infoChanges,
+    ({ mint, changes }) =>
+      `ℹ️ ${mint.name} - ${mint.url} ${getNpub(mint)}\n${changes.join("\n")}`,
+    ({ changes }) => ({ changes }),
+  );
+
+let digestsSent = getDigestsSent();
+const digests = (DIGESTS ?? "daily weekly")
+  .split(" ")
+  .filter((period): period is DigestPeriod => period in digestPeriods);
+const digestHour = Number(DIGEST_HOUR) || 0;
+const digestWeekday = Number(DIGEST_WEEKDAY ?? 1) || 0;
+
+/**
+ * The swaps of the index, completed from the audit API when the index
+ * doesn't reach back to `start`, as it's capped and starts over with every
+ * run. Falls back to the index alone when the API fails.
+ */
+const getSwapsSince = async (start: number) => {
+  const indexed = swapIndex.after(0);
+  const oldest = indexed[0] ? new Date(indexed[0].created_at).getTime() : null;
+  if (oldest !== null && oldest <= start) return indexed;
+  try {
+    const fetched = await audit.getSwapsCreatedSince(start);
+    const ids = new Set(fetched.map((swap) => swap.id));
+    return [...fetched, ...indexed.filter((swap) => !ids.has(swap.id))];
+  } catch (error) {
+    log(`Fetching the swaps since ${new Date(start).toISOString()} failed:`, error);
+    return indexed;
   }
 };
 
+/**
+ * Posts every enabled digest whose scheduled time passed since it was last
+ * sent. On the first run the schedule is only recorded, so a fresh install
+ * doesn't post a digest straight away.
+ */
+const sendDueDigests = async () => {
+  for (const period of digests) {
+    const due = lastDigestDue(period, digestHour, digestWeekday);
+    const lastSent = digestsSent[period];
+    if (lastSent && new Date(lastSent) >= due) continue;
+    if (lastSent) {
+      log(`Sending ${period} digest due ${due.toISOString()}`);
+      await notify(
+        "digest",
+        [],
+        buildDigest({
+          period,
+          end: due,
+          mints: latestMints,
+          swaps: await getSwapsSince(due.getTime() - digestPeriods[period]),
+          history,
+          balances: balanceTracker,
+          errorClassifier,
+        }).flatMap((post) => chunkSections([post], maxPostLength)),
+        { period, end: due.toISOString() },
+      );
+    }
+    digestsSent = { ...digestsSent, [period]: due.toISOString() };
+    saveDigestsSent(digestsSent);
+  }
+};
+
+/**
+ * Posts and DMs mints whose successful swaps became much slower than their
+ * baseline, and the ones back to normal.
+ */
+const announceLatencyChanges = (mints: Mint[]) =>
+  announce(
+    "latency",
+    "Swap Latency",
+    latencyMonitor.check(mints, (mintId) => swapIndex.latest(mintId, Infinity)),
+    ({ mint, degraded, latency, pairs }) => {
+      const { recent, baseline } = latency;
+      const stats = `p50 ${formatSeconds(recent.p50)} · p90 ${
+        formatSeconds(recent.p90)
+      } · p99 ${formatSeconds(recent.p99)}`;
+      if (!degraded) {
+        return `🐇 ${mint.name} swaps are back to normal speed (${stats})`;
+      }
+      return `🐢 ${mint.name} is degraded, swaps still succeed but take ${stats} vs p50 ${
+        formatSeconds(baseline.p50)
+      } usually ${getNpub(mint)}\nSlowest pairs:\n${
+        pairs.slice(0, 3).map((pair) =>
+          `${pair.pair} p50 ${formatSeconds(pair.p50)}`
+        ).join("\n")
+      }`;
+    },
+    ({ degraded, latency }) => ({ degraded, latency }),
+  );
+
+// Posts and DMs mints whose fees jumped far above their norm, and recoveries
+const announceFeeChanges = (mints: Mint[]) =>
+  announce(
+    "fees",
+    "Swap Fees",
+    feeMonitor.check(mints, (mintId) => swapIndex.latest(mintId, Infinity)),
+    ({ mint, anomaly, fees, pairs }) => {
+      const { recent, baseline } = fees;
+      const average = `${(recent.mean ?? 0).toFixed(1)} sats (${
+        formatPercent(recent.meanShare, 2)
+      })`;
+      if (!anomaly) {
+        return `💸 ${mint.name} fees are back to normal, ${average} on average`;
+      }
+      return `💸 ${mint.name} fees jumped to ${average} on average vs ${
+        (baseline.mean ?? 0).toFixed(1)
+      } sats (${formatPercent(baseline.meanShare, 2)}) usually ${
+        getNpub(mint)
+      }\nHighest-fee pairs:\n${
+        pairs.slice(0, 3).map((pair) =>
+          `${pair.pair} ${(pair.mean ?? 0).toFixed(1)} sats (${
+            formatPercent(pair.meanShare, 2)
+          })`
+        ).join("\n")
+      }`;
+    },
+    ({ anomaly, fees }) => ({ anomaly, fees }),
+  );
+
+// Posts and DMs mints running out of sats to be audited with, and refills
+const announceBalanceChanges = (mints: Mint[]) =>
+  announce(
+    "balance",
+    "Mint Balances",
+    balanceTracker.check(mints),
+    ({ mint, status, previous }) => {
+      if (status === "recovered") {
+        return `💰 ${mint.name} balance is back up to ${mint.balance} sats`;
+      }
+      if (status === "empty") {
+        return `🪫 ${mint.name} balance is empty, the auditor can no longer test it ${
+          getNpub(mint)
+        }`;
+      }
+      return `📉 ${mint.name} balance is draining, down to ${mint.balance} sats from ${previous} sats ${
+        getNpub(mint)
+      }`;
+    },
+    ({ mint, status, previous }) => ({
+      status,
+      balance: mint.balance,
+      previous,
+    }),
+  );
+
+// Posts and DMs mints that stopped minting and melting, and error jumps
+const announceActivityChanges = (mints: Mint[]) =>
+  announce(
+    "activity",
+    "Mint Activity",
+    activityMonitor.check(mints),
+    ({ mint, signal, value }) => {
+      const hours = (value / (60 * 60 * 1000)).toFixed(1);
+      if (signal === "errors") {
+        return `⚠️ ${mint.name} errors jumped by ${value} since the last poll ${
+          getNpub(mint)
+        }`;
+      }
+      if (signal === "resumed") {
+        return `▶️ ${mint.name} is minting and melting again`;
+      }
+      return `💤 ${mint.name} stalled, no mints or melts for ${hours}h while other mints keep moving ${
+        getNpub(mint)
+      }`;
+    },
+    ({ signal, value }) => ({ signal, value }),
+  );
+
+// Posts when the audit data becomes unavailable and when it's back
+const announceAuditHealth = async (
+  change: { status: AuditStatus; previous: AuditStatus } | null,
+) => {
+  if (!change) return;
+  const { status, previous } = change;
+  log("Audit health changed:", status);
+  if (!status.available) {
+    await notify("audit_health", [], [
+      `⚠️ Audit data unavailable: ${status.reason}.\nLatency, fee, balance and activity alerts are paused until it's back, failed swaps are announced then.`,
+    ], { status, previous });
+    return;
+  }
+  const minutes = Math.round(
+    (new Date(status.since).getTime() - new Date(previous.since).getTime()) /
+      60000,
+  );
+  await notify(
+    "audit_health",
+    [],
+    [`✅ Audit data is back after ${minutes} minutes.`],
+    { status, previous },
+  );
+};
+
 let lastTime = Date.now();
+let watermark = getWatermark();
+
+/**
+ * Returns the indexed swaps after the watermark, oldest first. Swaps older
+ * than `catchupMaxAge` are skipped, and at most `catchupLimit` swaps are
+ * fetched to close the gap after downtime.
+ */
+const getUnprocessedSwaps = () => {
+  if (!watermark) {
+    // first run, only look at the last poll interval
+    return swapIndex.after(0).filter((swap) =>
+      new Date(swap.created_at).getTime() > Date.now() - 60000
+    );
+  }
+  if (swapIndex.oldestId() > watermark.id + 1) {
+    log(`Swaps after #${watermark.id} up to #${swapIndex.oldestId()} are beyond the catch-up limit and won't be announced`);
+  }
+  const unprocessed = swapIndex.after(watermark.id);
+  const recent = unprocessed.filter((swap) =>
+    new Date(swap.created_at).getTime() > Date.now() - catchupMaxAge
+  );
+  if (recent.length < unprocessed.length) {
+    log(`Skipping ${unprocessed.length - recent.length} swaps older than the catch-up window`);
+  }
+  return recent;
+};
+
+const advanceWatermark = () => {
+  const newest = swapIndex.after(watermark?.id ?? 0).pop();
+  if (newest) {
+    watermark = { id: newest.id, created_at: newest.created_at };
+    saveWatermark(watermark);
+  }
+};
+
+// Start of the running poll, a slow poll must not overlap the next one
+let pollStarted: number | null = null;
+// A poll running longer than this is taken as stuck and no longer waited for
+const maxPollTime = 10 * 60 * 1000;
 
 const doIt = async () => {
+  if (pollStarted !== null && Date.now() - pollStarted < maxPollTime) {
+    log("Previous poll is still running, skipping this one");
+    return;
+  }
+  if (pollStarted !== null) {
+    log(`Previous poll is stuck since ${new Date(pollStarted).toISOString()}, starting a new one`);
+  }
+  const started = Date.now();
+  pollStarted = started;
   const timeNow = Date.now();
   const timeDiff = timeNow - lastTime;
   lastTime = timeNow;
   log(`${new Date().toISOString().replace("T", " ")} - Last run ${timeDiff}ms ago`);
   try {
-    allSwaps = await getSwaps();
-    const lastMinuteSwaps = allSwaps.filter((swap) =>
-      new Date(swap.created_at).getTime() > Date.now() - 60000
-    );
-    if (lastMinuteSwaps.length) log(lastMinuteSwaps[0]);
-    const failedSwaps = lastMinuteSwaps.filter(swap => swap.state !== 'OK')
+    await fetchNewSwaps();
+    const mints = await fetchMints();
+    if (mints) latestMints = mints;
+    updateSwapMatrix(latestMints);
+    if (mints && prober) await prober.probeAll(mints);
+    // before anything else parses the new info
+    const infoChanges = mints ? getMintInfoChanges(mints) : [];
+    await announceAuditHealth(auditHealth.check());
+    // the data can't be trusted while the audit is down or stale
+    const paused = !auditHealth.isAvailable();
+    if (paused) {
+      log("Audit data unavailable, alerts are paused");
+      activityMonitor.dropJumps();
+    }
+    const newSwaps = getUnprocessedSwaps();
+    if (newSwaps.length) log(newSwaps[newSwaps.length - 1]);
+    const failedSwaps = paused ? [] : newSwaps.filter(swap => swap.state !== 'OK')
+    for (const swap of failedSwaps) {
+      await notifySubscribers(
+        [swap.from_id, swap.to_id],
+        getFailedSwapsSections([swap])[0],
+      );
+    }
+    if (mints) await notifyStateChanges(mints);
+    if (mints) await alertStateChanges(mints);
     if (failedSwaps.length) {
-      threadMessages = []
-      threadMessages.push(getFailedSwapsMessage(failedSwaps))
-      threadMessages.push(await checkMints());
-      await nostr.reconnect();
-      await nostr.sendThreadPost(threadMessages);
-      await nostr.disconnect();
-      threadMessages = [];
+      const threadMessages = [
+        ...chunkSections(getFailedSwapsSections(failedSwaps), maxPostLength),
+        ...chunkSections(checkMints(mints), maxPostLength),
+      ];
+      const involved = new Set(
+        failedSwaps.flatMap((swap) => [swap.from_id, swap.to_id]),
+      );
+      await notify(
+        "failed_swap",
+        latestMints.filter((mint) => involved.has(mint.id)),
+        threadMessages,
+        { swaps: failedSwaps },
+      );
     }
+    // swaps held back while paused go out once the data is back
+    if (!paused) advanceWatermark();
+    updateFeeds();
+    updateStatusPage();
+    if (mints && !paused) await announceLatencyChanges(mints);
+    if (mints && !paused) await announceFeeChanges(mints);
+    if (mints && !paused) await announceBalanceChanges(mints);
+    if (mints && !paused) await announceActivityChanges(mints);
+    await announceMintInfoChanges(infoChanges);
+    await sendDueDigests();
   } catch (error) {
     log(error);
+  } finally {
+    // a stuck poll that finishes late must not clear a newer one
+    if (pollStarted === started) pollStarted = null;
   }
 };
 
+const api = setupApi({
+  mints: () => latestMints,
+  swapIndex,
+  history,
+  auditHealth,
+  metrics: () => metrics.render(latestMints),
+});
+
+// The HTTP API and /metrics only run when a port is configured
+const serveApi = () => {
+  const port = Number(API_PORT);
+  if (!port) return;
+  Deno.serve({
+    port,
+    hostname: API_HOSTNAME || "127.0.0.1",
+    onListen: ({ hostname, port }) =>
+      log(`API listening on http://${hostname}:${port}`),
+  }, api.handle);
+};
+
 const main = () => {
+  serveApi();
   doIt();
   setInterval(doIt, 59975);
 }
@@ -0,0 +1,144 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import { escapeXml } from "./format.ts";
+
+export type MatrixCell = {
+  from_id: number;
+  to_id: number;
+  ok: number;
+  total: number;
+};
+
+export type SwapMatrix = {
+  mints: { id: number; name: string; url: string }[];
+  // Keyed by `${from_id}-${to_id}`, pairs without swaps are missing
+  cells: Map<string, MatrixCell>;
+};
+
+const cellKey = (fromId: number, toId: number) => `${fromId}-${toId}`;
+
+const rate = (cell?: { ok: number; total: number }) =>
+  cell?.total ? cell.ok / cell.total : null;
+
+// Success of every from -> to pair over `swaps`
+export const buildSwapMatrix = (swaps: Swap[], mints: Mint[]): SwapMatrix => {
+  const cells = new Map<string, MatrixCell>();
+  for (const swap of swaps) {
+    const key = cellKey(swap.from_id, swap.to_id);
+    const cell = cells.get(key) ??
+      { from_id: swap.from_id, to_id: swap.to_id, ok: 0, total: 0 };
+    cell.total++;
+    if (swap.state === "OK") cell.ok++;
+    cells.set(key, cell);
+  }
+  return {
+    mints: mints.map(({ id, name, url }) => ({ id, name, url })),
+    cells,
+  };
+};
+
+// Rows are senders, columns receivers, values success rates between 0 and 1
+export const matrixToCsv = ({ mints, cells }: SwapMatrix) => {
+  const escape = (value: string) => `"${value.replaceAll('"', '""')}"`;
+  return [
+    ["from \\ to", ...mints.map((mint) => mint.url)].map(escape).join(","),
+    ...mints.map((from) =>
+      [
+        escape(from.url),
+        ...mints.map((to) =>
+          rate(cells.get(cellKey(from.id, to.id)))?.toFixed(3) ?? ""
+        ),
+      ].join(",")
+    ),
+  ].join("\n") + "\n";
+};
+
+export const matrixToJson = ({ mints, cells }: SwapMatrix) =>
+  JSON.stringify(
+    {
+      mints,
+      pairs: [...cells.values()].map((cell) => ({
+        ...cell,
+        rate: rate(cell),
+      })),
+    },
+    null,
+    2,
+  );
+
+// Red at 0% through yellow to green at 100%
+const heatColor = (value: number) =>
+  `hsl(${Math.round(value * 120)}, 70%, 50%)`;
+
+// Heatmap of the matrix, senders on the left and receivers on top
+export const matrixToSvg = ({ mints, cells }: SwapMatrix) => {
+  const size = 16;
+  const label = 180;
+  const width = label + mints.length * size;
+  const rows = mints.flatMap((from, row) =>
+    mints.map((to, column) => {
+      const cell = cells.get(cellKey(from.id, to.id));
+      const value = rate(cell);
+      return `<rect x="${label + column * size}" y="${
+        label + row * size
+      }" width="${size}" height="${size}" fill="${
+        value === null ? "#eee" : heatColor(value)
+      }"><title>${
+        escapeXml(
+          `${from.name} -> ${to.name}: ${
+            cell ? `${cell.ok}/${cell.total}` : "no swaps"
+          }`,
+        )
+      }</title></rect>`;
+    })
+  );
+  const labels = mints.flatMap((mint, i) => [
+    `<text x="${label - 4}" y="${
+      label + i * size + size * 0.75
+    }" text-anchor="end">${escapeXml(mint.name)}</text>`,
+    `<text transform="translate(${label + i * size + size * 0.75} ${
+      label - 4
+    }) rotate(-90)">${escapeXml(mint.name)}</text>`,
+  ]);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${width}" font-family="sans-serif" font-size="11">
+${[...labels, ...rows].join("\n")}
+</svg>
+`;
+};
+
+/**
+ * Guesses which side of a failed pair is to blame by comparing how the
+ * sender does with other receivers and how the receiver does with other
+ * senders. Null when there's too little data or no clear difference.
+ */
+export const findCulprit = (
+  { cells }: SwapMatrix,
+  fromId: number,
+  toId: number,
+  minSwaps = 5,
+  margin = 0.2,
+) => {
+  const sent = { ok: 0, total: 0 };
+  const received = { ok: 0, total: 0 };
+  for (const cell of cells.values()) {
+    if (cell.from_id === fromId && cell.to_id !== toId) {
+      sent.ok += cell.ok;
+      sent.total += cell.total;
+    }
+    if (cell.to_id === toId && cell.from_id !== fromId) {
+      received.ok += cell.ok;
+      received.total += cell.total;
+    }
+  }
+  if (sent.total < minSwaps || received.total < minSwaps) return null;
+  const senderRate = sent.ok / sent.total;
+  const receiverRate = received.ok / received.total;
+  if (Math.abs(senderRate - receiverRate) < margin) return null;
+  return {
+    culprit: senderRate < receiverRate
+      ? "sender" as const
+      : "receiver" as const,
+    senderRate,
+    receiverRate,
+  };
+};
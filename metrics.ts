@@ -0,0 +1,192 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import type { AuditRequestResult } from "./audit.ts";
+import { states } from "./validate.ts";
+
+type Histogram = { counts: number[]; sum: number; count: number };
+
+// Seconds, for swap durations and audit API requests alike
+export const defaultBuckets = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+const escapeLabel = (value: string) =>
+  value.replaceAll("\\", "\\\\").replaceAll('"', '\\"').replaceAll("\n", "\\n");
+
+const formatLabels = (labels: Record<string, string>) => {
+  const pairs = Object.entries(labels).map(([key, value]) =>
+    `${key}="${escapeLabel(value)}"`
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+};
+
+/**
+ * Counters and histograms of what the bot observed, rendered in the
+ * Prometheus text exposition format. Counters start at zero with every
+ * run, the mint gauges are read from the latest mints on each scrape.
+ */
+export const setupMetrics = (buckets = defaultBuckets) => {
+  // Keyed by the JSON of their labels, so a series is created on first use
+  const swapCounts = new Map<string, number>();
+  const swapTimes = new Map<string, Histogram>();
+  const auditCounts = new Map<string, number>();
+  const auditTimes = new Map<string, Histogram>();
+  const relayConnected = new Map<string, boolean>();
+  const publishCounts = new Map<string, number>();
+
+  const increment = (
+    counts: Map<string, number>,
+    labels: Record<string, string>,
+  ) => {
+    const key = JSON.stringify(labels);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  };
+
+  const observe = (
+    histograms: Map<string, Histogram>,
+    labels: Record<string, string>,
+    value: number,
+  ) => {
+    const key = JSON.stringify(labels);
+    const histogram = histograms.get(key) ??
+      { counts: buckets.map(() => 0), sum: 0, count: 0 };
+    buckets.forEach((bound, i) => {
+      if (value <= bound) histogram.counts[i]++;
+    });
+    histogram.sum += value;
+    histogram.count++;
+    histograms.set(key, histogram);
+  };
+
+  // Counts every swap for both mints, and its time for the sending one
+  const observeSwaps = (swaps: Swap[]) => {
+    for (const swap of swaps) {
+      const result = swap.state === "OK" ? "success" : "failure";
+      increment(swapCounts, { mint: swap.from_url, direction: "sent", result });
+      increment(swapCounts, {
+        mint: swap.to_url,
+        direction: "received",
+        result,
+      });
+      observe(swapTimes, { mint: swap.from_url }, swap.time_taken);
+    }
+  };
+
+  const observeAuditRequest = (result: AuditRequestResult) => {
+    const endpoint = result.path.split("?")[0];
+    increment(auditCounts, {
+      endpoint,
+      result: result.ok ? "success" : "failure",
+    });
+    observe(auditTimes, { endpoint }, result.duration / 1000);
+  };
+
+  const setRelayConnected = (relay: string, connected: boolean) => {
+    relayConnected.set(relay, connected);
+  };
+
+  const observePublish = (relay: string, ok: boolean) => {
+    increment(publishCounts, { relay, result: ok ? "success" : "failure" });
+  };
+
+  const renderCounters = (
+    name: string,
+    help: string,
+    counts: Map<string, number>,
+  ) => [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} counter`,
+    ...[...counts].map(([key, value]) =>
+      `${name}${formatLabels(JSON.parse(key))} ${value}`
+    ),
+  ];
+
+  const renderHistograms = (
+    name: string,
+    help: string,
+    histograms: Map<string, Histogram>,
+  ) => [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} histogram`,
+    ...[...histograms].flatMap(([key, histogram]) => {
+      const labels = JSON.parse(key);
+      return [
+        ...buckets.map((bound, i) =>
+          `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${
+            histogram.counts[i]
+          }`
+        ),
+        `${name}_bucket${
+          formatLabels({ ...labels, le: "+Inf" })
+        } ${histogram.count}`,
+        `${name}_sum${formatLabels(labels)} ${histogram.sum}`,
+        `${name}_count${formatLabels(labels)} ${histogram.count}`,
+      ];
+    }),
+  ];
+
+  const render = (mints: Mint[]) =>
+    [
+      "# HELP cashu_mint_info Mints known to the audit, by URL",
+      "# TYPE cashu_mint_info gauge",
+      ...mints.map((mint) =>
+        `cashu_mint_info${
+          formatLabels({ mint: mint.url, name: mint.name, id: String(mint.id) })
+        } 1`
+      ),
+      "# HELP cashu_mint_state Current audit state of the mint, 1 for the state it's in",
+      "# TYPE cashu_mint_state gauge",
+      ...mints.flatMap((mint) =>
+        states.map((state) =>
+          `cashu_mint_state${formatLabels({ mint: mint.url, state })} ${
+            mint.state === state ? 1 : 0
+          }`
+        )
+      ),
+      "# HELP cashu_mint_balance_sats Balance the auditor holds on the mint",
+      "# TYPE cashu_mint_balance_sats gauge",
+      ...mints.map((mint) =>
+        `cashu_mint_balance_sats${
+          formatLabels({ mint: mint.url })
+        } ${mint.balance}`
+      ),
+      ...renderCounters(
+        "cashu_mint_swaps_total",
+        "Swaps seen per mint, as sender or receiver",
+        swapCounts,
+      ),
+      ...renderHistograms(
+        "cashu_mint_swap_time_taken_seconds",
+        "time_taken of the swaps the mint sent",
+        swapTimes,
+      ),
+      ...renderCounters(
+        "cashu_audit_requests_total",
+        "Audit API requests after retries",
+        auditCounts,
+      ),
+      ...renderHistograms(
+        "cashu_audit_request_duration_seconds",
+        "Duration of the last attempt of each audit API request",
+        auditTimes,
+      ),
+      "# HELP cashu_relay_connected Whether the relay connection is open",
+      "# TYPE cashu_relay_connected gauge",
+      ...[...relayConnected].map(([relay, connected]) =>
+        `cashu_relay_connected${formatLabels({ relay })} ${connected ? 1 : 0}`
+      ),
+      ...renderCounters(
+        "cashu_relay_publish_total",
+        "Events sent to each relay, by whether the relay accepted them",
+        publishCounts,
+      ),
+    ].join("\n") + "\n";
+
+  return {
+    observeSwaps,
+    observeAuditRequest,
+    setRelayConnected,
+    observePublish,
+    render,
+  };
+};
+
+export type Metrics = ReturnType<typeof setupMetrics>;
@@ -7,7 +7,7 @@ import EventEmitter from "https://deno.land/x/events@v1.0.0/mod.ts";
 import Relay, { NostrEvent } from "./relay.ts";
 import { bech32 } from 'https://raw.githubusercontent.com/paulmillr/scure-base/main/mod.ts';
 import { encode } from "./encode.ts";
-import { schnorr, utils } from "./secp.ts";
+import { getSharedSecret, schnorr, utils } from "./secp.ts";
 
 export enum NostrKind {
     META_DATA = 0,
@@ -54,9 +54,13 @@ export interface NostrPost {
 
 interface NostrEvents {
     'relayConnected': (relay: Relay) => void;
+    'relayDisconnected': (relay: Relay) => void;
     'relayError': (error: Error, relay: Relay|null) => void;
     'relayNotice': (notice: Array<string>) => void;
     'relayPost': (id: string, status: boolean, errorMessage: string, relay: Relay) => void;
+    // Whether the relay accepted an event sent with Relay.sendEvent
+    'relayPublished': (event: NostrEvent, status: boolean, relay: Relay) => void;
+    'directMessage': (message: NostrMessage) => void;
 }
 
 export interface NostrMessage {
@@ -84,6 +88,12 @@ class Nostr extends EventEmitter {
     private _privateKey: any;
     private _publicKey: any;
     public debugMode = false;
+    // Reconnect relays that drop, for long running subscriptions
+    public autoReconnect = false;
+    private directMessageSubscriptions: Array<{relay: Relay, subscribeId: string}> = [];
+    // Ids of the handled direct messages, the oldest are dropped past the cap
+    private receivedMessageIds = new Set<string>();
+    private maxReceivedMessageIds = 10000;
 
     constructor() {
         super();
@@ -125,14 +135,17 @@ class Nostr extends EventEmitter {
             throw new Error('Please add any relay in relayList property.');
         }
         for (const relayItem of this.relayList) {
+            const relay = new Relay(this);
+            relay.name = relayItem.name;
+            relay.url = relayItem.url;
+            relay.reconnect = this.autoReconnect;
+            // kept even when it's down, to be retried and get the subscriptions
+            this.relayInstances.push(relay);
             try {
-                const relay = new Relay(this);
-                relay.name = relayItem.name;
-                relay.url = relayItem.url;
                 await relay.connect();
-                this.relayInstances.push(relay);
             } catch (err: any) {
-                this.emit('relayError', err, null);
+                this.emit('relayError', err, relay);
+                relay.scheduleReconnect();
             }
         }
     }
@@ -414,7 +427,26 @@ class Nostr extends EventEmitter {
         return await schnorr.sign(id, this._privateKey);
     }
 
-    private async sendPost(content: string, rootReference?: string, reference?: string) {
+    /**
+     * NIP-27: a p tag for every nostr:npub reference in the content, so the
+     * mentioned users get notified
+     */
+    private getMentionTags(content: string) {
+        const tags: Array<Array<string>> = [];
+        for (const [, npub] of content.matchAll(/nostr:(npub1[02-9ac-hj-np-z]+)/g)) {
+            try {
+                const key = this.getKeyFromNip19(npub);
+                if (!tags.some(tag => tag[1] === key)) {
+                    tags.push(['p', key]);
+                }
+            } catch (err: any) {
+                this.log('Invalid mention;', npub, err.message);
+            }
+        }
+        return tags;
+    }
+
+    private async sendPost(content: string, rootReference?: string, reference?: string, tags: Array<Array<string>> = []) {
         const event: NostrEvent = {
             content,
             created_at: Math.floor(Date.now() / 1000),
@@ -440,32 +472,180 @@ class Nostr extends EventEmitter {
                 'reply'
             ]); 
         }
+        event.tags.push(...this.getMentionTags(content), ...tags);
         // event.tags = event.tags.map((tags: Array<string>) => tags[0] === 'e' ? [tags[0], tags[1], "", tags[3]] : tags);
+        await this.signAndSend(event);
+        const eventPost = this.eventToPost(event);
+        return eventPost;
+    }
+
+    private toBase64(bytes: Uint8Array) {
+        let binary = '';
+        for (const byte of bytes) {
+            binary += String.fromCharCode(byte);
+        }
+        return btoa(binary);
+    }
+
+    private fromBase64(text: string) {
+        return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+    }
+
+    /**
+     * NIP-04 key: the x coordinate of the ECDH point shared with the other party
+     */
+    private async getDirectMessageKey(publicKey: string) {
+        const shared = getSharedSecret(this._privateKey, '02' + publicKey, true);
+        return await crypto.subtle.importKey('raw', shared.slice(1, 33), { name: 'AES-CBC' }, false, ['encrypt', 'decrypt']);
+    }
+
+    // `iv` is only passed by tests, every message needs a fresh random one
+    async encryptDirectMessage(publicKey: string, text: string, iv = crypto.getRandomValues(new Uint8Array(16))) {
+        const key = await this.getDirectMessageKey(publicKey);
+        const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, this.utf8Encode(text));
+        return `${this.toBase64(new Uint8Array(encrypted))}?iv=${this.toBase64(iv)}`;
+    }
+
+    async decryptDirectMessage(publicKey: string, content: string) {
+        const [data, iv] = content.split('?iv=');
+        if (!data || !iv) {
+            throw new Error('Invalid direct message content.');
+        }
+        const key = await this.getDirectMessageKey(publicKey);
+        const decrypted = await crypto.subtle.decrypt({ name: 'AES-CBC', iv: this.fromBase64(iv) }, key, this.fromBase64(data));
+        return new TextDecoder().decode(decrypted);
+    }
+
+    private async signAndSend(event: NostrEvent) {
         event.id = await this.calculateId(event);
         event.sig = new TextDecoder().decode(encode(await this.signId(event.id)));
+        let accepted = 0;
         for (const relay of this.relayInstances) {
             try {
                 this.log('Send event;', relay.name, event);
                 await relay.sendEvent(event);
+                accepted++;
             } catch (err: any) {
                 console.error(`Send event error; ${err.message} Relay name; ${relay.name}`);
             }
         }
-        const eventPost = this.eventToPost(event);
-        return eventPost;
+        if (!accepted) {
+            throw new Error('No relay accepted the event.');
+        }
+        return event;
+    }
+
+    /**
+     * Sends a NIP-04 encrypted direct message.
+     * @param receiver public key of the receiver, hex or npub
+     * @param content the plain text message
+     */
+    async sendDirectMessage(receiver: string, content: string): Promise<NostrMessage> {
+        if (receiver.substring(0, 4) === 'npub') {
+            receiver = this.getKeyFromNip19(receiver);
+        }
+        const event: NostrEvent = {
+            content: await this.encryptDirectMessage(receiver, content),
+            created_at: Math.floor(Date.now() / 1000),
+            id: '',
+            kind: NostrKind.DIRECT_MESSAGE,
+            pubkey: this._publicKey,
+            sig: '',
+            tags: [['p', receiver]]
+        };
+        await this.signAndSend(event);
+        return {
+            content,
+            sender: this._publicKey,
+            receiver,
+            createdAt: event.created_at
+        };
+    }
+
+    private async handleDirectMessage(event: NostrEvent | null) {
+        if (!event || event.kind !== NostrKind.DIRECT_MESSAGE || this.receivedMessageIds.has(event.id)) {
+            return;
+        }
+        try {
+            // a relay could pair a real id and signature with its own content
+            if (event.id !== await this.calculateId(event)) {
+                throw new Error('Invalid direct message id.');
+            }
+            if (!await this.isValidEvent(event)) {
+                throw new Error('Invalid direct message signature.');
+            }
+            // only verified ids, so a forged copy can't shadow the real message
+            if (this.receivedMessageIds.has(event.id)) {
+                return;
+            }
+            this.receivedMessageIds.add(event.id);
+            if (this.receivedMessageIds.size > this.maxReceivedMessageIds) {
+                this.receivedMessageIds.delete(this.receivedMessageIds.values().next().value as string);
+            }
+            const receiver = event.tags.find((tag: Array<string>) => tag[0] === 'p')?.[1];
+            if (receiver !== this._publicKey) {
+                return;
+            }
+            this.emit('directMessage', {
+                content: await this.decryptDirectMessage(event.pubkey, event.content),
+                sender: event.pubkey,
+                receiver,
+                createdAt: event.created_at
+            });
+        } catch (err: any) {
+            this.emit('relayError', err, null);
+        }
+    }
+
+    /**
+     * Listens for direct messages sent to this key on every connected relay,
+     * emitted decrypted as 'directMessage' events. The subscription is sent
+     * again whenever a relay reconnects.
+     * @param since only receive messages created after this unix time
+     */
+    subscribeDirectMessages(since = Math.floor(Date.now() / 1000)) {
+        if (!this._privateKey) {
+            throw new Error('You must set a private key for receiving direct messages.');
+        }
+        this.unsubscribeDirectMessages();
+        const filters = {
+            kinds: [NostrKind.DIRECT_MESSAGE],
+            "#p": [this._publicKey],
+            since
+        } as NostrFilters;
+        for (const relay of this.relayInstances) {
+            const subscribeId = relay.subscribe(filters, (event: NostrEvent | null) => this.handleDirectMessage(event), true);
+            this.directMessageSubscriptions.push({ relay, subscribeId });
+        }
     }
 
-    async sendTextPost(content: string) {
-        return await this.sendPost(content);
+    unsubscribeDirectMessages() {
+        for (const { relay, subscribeId } of this.directMessageSubscriptions) {
+            try {
+                relay.unsubscribe(subscribeId);
+            } catch (err: any) {
+                this.emit('relayError', err, relay);
+            }
+        }
+        this.directMessageSubscriptions = [];
     }
 
-    async sendReplyPost(content: string, post: NostrPost) {
-        return await this.sendPost(content, post.rootReference, post.reference);
+    async sendTextPost(content: string, tags: Array<Array<string>> = []) {
+        return await this.sendPost(content, undefined, undefined, tags);
     }
 
-    async sendThreadPost(posts: string[]) {
+    async sendReplyPost(content: string, post: NostrPost, tags: Array<Array<string>> = []) {
+        return await this.sendPost(content, post.rootReference, post.reference, tags);
+    }
+
+    /**
+     * @param posts the thread, the first post is the root and every other one replies to the previous
+     * @param getTags extra tags for each post, besides the e and mention tags
+     */
+    async sendThreadPost(posts: string[], getTags: (content: string) => Array<Array<string>> = () => []) {
         if (posts.length < 2) throw 'At least 2 posts required';
-        const firstPost = await this.sendTextPost(posts.shift() as string);
+        const first = posts.shift() as string;
+        const firstPost = await this.sendTextPost(first, getTags(first));
         let lastPost: NostrPost | null = null;
         for (let i = 0; i < posts.length; i++) {
             const text = posts[i];
@@ -473,12 +653,12 @@ class Nostr extends EventEmitter {
                 if (!firstPost) {
                     throw 'First post not found';
                 }
-                lastPost = await this.sendPost(text, firstPost.id);
+                lastPost = await this.sendPost(text, firstPost.id, undefined, getTags(text));
             } else {
                 if (!lastPost) {
                     throw 'Last post not found';
                 }
-                lastPost = await this.sendPost(text, "", lastPost.id);
+                lastPost = await this.sendPost(text, "", lastPost.id, getTags(text));
             }
         }
     }
@@ -0,0 +1,39 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { Nostr } from './nostr.ts';
+
+// NIP-04 message from the key 1 to the key 2, encrypted with nostr-tools 2.x
+const alice = {
+    privateKey: '0000000000000000000000000000000000000000000000000000000000000001',
+    publicKey: '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+};
+const bob = {
+    privateKey: '0000000000000000000000000000000000000000000000000000000000000002',
+    publicKey: 'c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5',
+};
+const plainText = 'Hello from nostr-tools! ⚡ 🥜';
+const iv = '/zKxnwgF80JPWyXNtlWQYQ==';
+const content = `wKNU4HqhEQx8oNwDis/obhndwmbKyeZHwz6TjEVL6u8gsc0QVf5nKbLt1nyUUame?iv=${iv}`;
+
+const withKey = (privateKey: string) => {
+    const nostr = new Nostr();
+    nostr.privateKey = privateKey;
+    return nostr;
+};
+
+Deno.test('NIP-04 decrypts a message from another client', async () => {
+    assertEquals(await withKey(bob.privateKey).decryptDirectMessage(alice.publicKey, content), plainText);
+});
+
+Deno.test('NIP-04 encrypts like another client given the same IV', async () => {
+    const ivBytes = Uint8Array.from(atob(iv), (char) => char.charCodeAt(0));
+    assertEquals(await withKey(alice.privateKey).encryptDirectMessage(bob.publicKey, plainText, ivBytes), content);
+});
+
+Deno.test('NIP-04 round trips with a random IV', async () => {
+    const encrypted = await withKey(alice.privateKey).encryptDirectMessage(bob.publicKey, 'gm');
+    assertEquals(await withKey(bob.privateKey).decryptDirectMessage(alice.publicKey, encrypted), 'gm');
+});
+
+Deno.test('NIP-04 rejects content without an IV', async () => {
+    await assertRejects(() => withKey(bob.privateKey).decryptDirectMessage(alice.publicKey, 'wKNU4HqhEQx8oNwD'));
+});
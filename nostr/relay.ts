@@ -9,6 +9,9 @@ import { Nostr, NostrFilters, NostrKind } from "./nostr.ts";
 interface Listener {
     subscribeId: string;
     func: any;
+    // Kept open after EOSE and sent again when the relay reconnects
+    keepAlive?: boolean;
+    filters?: NostrFilters;
 }
 
 export interface NostrEvent {
@@ -27,8 +30,15 @@ class Relay {
     private ws: WebSocketClient|undefined;
     private nostr: Nostr;
     public relayConnectionTimeout = 15000;
+    // Ms to wait for the relay to accept or refuse an event
+    public sendEventTimeout = 15000;
     public connected = false;
     public reconnect = false;
+    // Delay before the first reconnect attempt, doubled after each failed one up to the max
+    public reconnectDelay = 1000;
+    public maxReconnectDelay = 5 * 60 * 1000;
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
     private manualClose = false;
     private listeners: Array<Listener> = [];
 
@@ -37,13 +47,20 @@ class Relay {
     }
 
     connect() {
+        this.manualClose = false;
         return new Promise((resolve, reject) => {
             const timer = setTimeout(() => reject(new Error('Relay connection timeout.')), this.relayConnectionTimeout);
             this.ws = new StandardWebSocketClient(this.url);
             this.ws.on('open', () => {
+                 this.connected = true;
+                 this.reconnectAttempts = 0;
+                 for (const listener of this.listeners) {
+                     if (listener.keepAlive && listener.filters) {
+                         this.sendRequest(listener.subscribeId, listener.filters);
+                     }
+                 }
                  this.nostr.emit('relayConnected', this);
                  clearTimeout(timer);
-                 this.connected = true;
                  resolve(true);
             });
             this.ws.on('error', (err: any) => {
@@ -52,21 +69,42 @@ class Relay {
                     return;
                 }
                 this.sendErrorEvent(err);
-                if (this.reconnect && !this.manualClose) {
-                    this.connect();
-                }
+                this.scheduleReconnect();
             });
             this.ws.on('close', () => {
-                if (this.reconnect && !this.manualClose) {
-                    this.connect();
+                if (this.connected) {
+                    this.connected = false;
+                    this.nostr.emit('relayDisconnected', this);
                 }
+                this.scheduleReconnect();
             });
             this.ws.on('message', (message: any) => this.handleMessage(message));
         });
     }
 
+    /**
+     * Reconnects after a delay that grows with every failed attempt, so a
+     * relay that's down isn't hammered. Only one attempt is pending at a time.
+     */
+    scheduleReconnect() {
+        if (!this.reconnect || this.manualClose || this.reconnectTimer !== undefined) {
+            return;
+        }
+        const delay = Math.min(this.reconnectDelay * 2 ** this.reconnectAttempts, this.maxReconnectDelay);
+        this.reconnectAttempts++;
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.connect().catch((err: Error) => {
+                this.sendErrorEvent(err);
+                this.scheduleReconnect();
+            });
+        }, delay);
+    }
+
     async disconnect() {
         this.manualClose = true;
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = undefined;
         await this.ws?.close(1000);
     }
 
@@ -74,19 +112,40 @@ class Relay {
         this.nostr.emit('relayError', err, this);
     }
 
-    public subscribe(filters: NostrFilters, listenerFunc: any) {
-        const subscribeId = crypto.randomUUID();
+    private sendRequest(subscribeId: string, filters: NostrFilters) {
         let data: string;
         if (Array.isArray(filters)) {
             data = JSON.stringify([ 'REQ', subscribeId, ...filters ]);
         } else {
             data = JSON.stringify([ 'REQ', subscribeId, filters ]);
         }
+        this.ws?.send(data);
+    }
+
+    /**
+     * @param filters the filters the events must match
+     * @param listenerFunc called with each event, then with null on EOSE
+     * @param keepAlive keep receiving new events after EOSE until unsubscribed
+     * @returns the subscription id
+     */
+    public subscribe(filters: NostrFilters, listenerFunc: any, keepAlive = false) {
+        const subscribeId = crypto.randomUUID();
         this.listeners.push({
             subscribeId,
-            func: listenerFunc
+            func: listenerFunc,
+            keepAlive,
+            filters: keepAlive ? filters : undefined
         });
-        this.ws?.send(data);
+        // keepAlive subscriptions are sent when the relay (re)connects
+        if (this.connected || !keepAlive) {
+            this.sendRequest(subscribeId, filters);
+        }
+        return subscribeId;
+    }
+
+    public unsubscribe(subscribeId: string) {
+        this.listeners = this.listeners.filter((listener: Listener) => listener.subscribeId !== subscribeId);
+        this.ws?.send(JSON.stringify([ 'CLOSE', subscribeId ]));
     }
 
     /**
@@ -167,6 +226,9 @@ class Relay {
         const listener = this.getListener(subscribeId);
         if (listener) {
             listener.func(null, true);
+            if (listener.keepAlive) {
+                return;
+            }
         }
         this.listeners = this.listeners.filter((listener: Listener) => listener.subscribeId !== subscribeId);
     }
@@ -199,17 +261,36 @@ class Relay {
 
     sendEvent(event: NostrEvent) {
         return new Promise((resolve, reject) => {
+            if (!this.connected) {
+                this.nostr.emit('relayPublished', event, false, this);
+                reject(new Error('Relay not connected.'));
+                return;
+            }
             const message = JSON.stringify(['EVENT', event]);
-            this.nostr.once('relayPost', (id: string, status: boolean, errorMessage: string, relay: Relay) => {
-                if (this === relay && id === event.id) {
-                    if (!status) {
-                        reject(new Error(errorMessage));
-                        return;
-                    }
-                    resolve(true);
+            // Only the reply to this event from this relay settles it
+            const listener = (id: string, status: boolean, errorMessage: string, relay: Relay) => {
+                if (this !== relay || id !== event.id) {
+                    return;
                 }
-            });
-            this.ws?.send(message);
+                finish(status, new Error(errorMessage));
+            };
+            const finish = (status: boolean, err: Error) => {
+                clearTimeout(timer);
+                this.nostr.off('relayPost', listener);
+                this.nostr.emit('relayPublished', event, status, this);
+                if (!status) {
+                    reject(err);
+                    return;
+                }
+                resolve(true);
+            };
+            const timer = setTimeout(() => finish(false, new Error('Relay post timeout.')), this.sendEventTimeout);
+            this.nostr.on('relayPost', listener);
+            try {
+                this.ws?.send(message);
+            } catch (err: any) {
+                finish(false, err);
+            }
         });
     }
 
@@ -0,0 +1,141 @@
+import type { Mint } from "./Mint.ts";
+import { retry, type RetryOptions } from "./retry.ts";
+
+export const alertKinds = [
+  "state_change",
+  "failed_swap",
+  "digest",
+  "mint_info",
+  "latency",
+  "fees",
+  "balance",
+  "activity",
+  "audit_health",
+] as const;
+
+export type AlertKind = typeof alertKinds[number];
+
+export type Alert = {
+  kind: AlertKind;
+  // ISO timestamp of when the alert was raised
+  at: string;
+  // Mints the alert is about, empty for ones about the audit as a whole
+  mints: Pick<Mint, "id" | "name" | "url">[];
+  // Rendered text, posted as a thread when there's more than one
+  posts: string[];
+  // Structured details, depending on the kind
+  data?: Record<string, unknown>;
+};
+
+export type Sink = {
+  name: string;
+  // Kinds the sink receives, all of them when missing
+  kinds?: AlertKind[];
+  send: (alert: Alert) => Promise<void>;
+};
+
+// `retries` counts per sink
+export type NotifierOptions = RetryOptions;
+
+// Space separated alert kinds, undefined when empty so a sink gets them all
+export const parseAlertKinds = (text?: string) => {
+  const kinds = (text ?? "").split(" ").filter((kind): kind is AlertKind =>
+    alertKinds.includes(kind as AlertKind)
+  );
+  return kinds.length ? kinds : undefined;
+};
+
+/**
+ * Fans every alert out to the sinks that accept its kind. A sink that keeps
+ * failing after its retries is logged and skipped, so one broken sink never
+ * holds back the others.
+ */
+export const setupNotifier = (sinks: Sink[], options: NotifierOptions) => {
+  const sendWithRetry = async (sink: Sink, alert: Alert) => {
+    try {
+      await retry(sink.name, options, async () => {
+        try {
+          await sink.send(alert);
+        } catch (error) {
+          options.log(
+            `Sending ${alert.kind} alert to ${sink.name} failed:`,
+            error,
+          );
+          throw error;
+        }
+      });
+      return true;
+    } catch (_) {
+      return false;
+    }
+  };
+
+  const notify = async (alert: Alert) => {
+    if (!alert.posts.length) return;
+    for (const sink of sinks) {
+      if (sink.kinds && !sink.kinds.includes(alert.kind)) continue;
+      await sendWithRetry(sink, alert);
+    }
+  };
+
+  return { notify };
+};
+
+export type Notifier = ReturnType<typeof setupNotifier>;
+
+export type WebhookOptions = {
+  url: string;
+  // Key for the HMAC-SHA256 signature, unsigned when empty
+  secret?: string;
+  kinds?: AlertKind[];
+  // Milliseconds before a request is aborted
+  timeout: number;
+};
+
+const toHex = (bytes: ArrayBuffer) =>
+  [...new Uint8Array(bytes)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+/**
+ * POSTs every alert as JSON. With a secret the body is signed, and the
+ * hex HMAC-SHA256 of the raw body is sent as `X-Signature: sha256=<hex>`.
+ */
+export const setupWebhookSink = (options: WebhookOptions): Sink => {
+  const key = options.secret
+    ? crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(options.secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    )
+    : null;
+
+  const send = async (alert: Alert) => {
+    const body = JSON.stringify(alert);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (key) {
+      const signature = await crypto.subtle.sign(
+        "HMAC",
+        await key,
+        new TextEncoder().encode(body),
+      );
+      headers["X-Signature"] = `sha256=${toHex(signature)}`;
+    }
+    const response = await fetch(options.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(options.timeout),
+    });
+    await response.body?.cancel();
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+  };
+
+  return { name: `webhook ${options.url}`, kinds: options.kinds, send };
+};
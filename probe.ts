@@ -0,0 +1,107 @@
+import type { Mint } from "./Mint.ts";
+
+export type ProbeResult = {
+  mint_id: number;
+  at: string;
+  reachable: boolean;
+  // Milliseconds /v1/info took to answer, null when it didn't
+  latency: number | null;
+  error: string | null;
+  // Active keyset ids from /v1/keysets
+  keysets: string[];
+  added: string[];
+  removed: string[];
+};
+
+export type ProberOptions = {
+  timeout: number;
+  log: (...args: unknown[]) => void;
+};
+
+/**
+ * Calls each mint's own /v1/info and /v1/keysets endpoints to cross-check
+ * the auditor, recording reachability, latency and keyset changes.
+ */
+export const setupProber = (options: ProberOptions) => {
+  const results = new Map<number, ProbeResult>();
+
+  const get = async (url: string) => {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(options.timeout),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return await response.json();
+  };
+
+  const probe = async (mint: Mint): Promise<ProbeResult> => {
+    const baseUrl = mint.url.replace(/\/+$/, "");
+    const previous = results.get(mint.id);
+    const at = new Date().toISOString();
+    const start = performance.now();
+    try {
+      await get(`${baseUrl}/v1/info`);
+      const latency = Math.round(performance.now() - start);
+      const { keysets } = await get(`${baseUrl}/v1/keysets`) as {
+        keysets: { id: string; active?: boolean }[];
+      };
+      const active = keysets
+        .filter((keyset) => keyset.active !== false)
+        .map((keyset) => keyset.id)
+        .sort();
+      const known = previous?.keysets.length ? previous.keysets : active;
+      return {
+        mint_id: mint.id,
+        at,
+        reachable: true,
+        latency,
+        error: null,
+        keysets: active,
+        added: active.filter((id) => !known.includes(id)),
+        removed: known.filter((id) => !active.includes(id)),
+      };
+    } catch (error) {
+      return {
+        mint_id: mint.id,
+        at,
+        reachable: false,
+        latency: null,
+        error: error instanceof Error ? error.message : String(error),
+        // keep the last known keysets to diff against once it's back
+        keysets: previous?.keysets ?? [],
+        added: [],
+        removed: [],
+      };
+    }
+  };
+
+  const probeAll = async (mints: Mint[]) => {
+    const probed = await Promise.all(mints.map(probe));
+    for (const result of probed) {
+      results.set(result.mint_id, result);
+      if (result.added.length || result.removed.length) {
+        options.log(
+          `Keysets of mint #${result.mint_id} changed, added ${result.added} removed ${result.removed}`,
+        );
+      }
+    }
+    return probed;
+  };
+
+  // One line summary of the last probe, empty if the mint wasn't probed
+  const verdict = (mintId: number) => {
+    const result = results.get(mintId);
+    if (!result) return "";
+    const keysets = result.added.length || result.removed.length
+      ? " · 🔑 keysets changed"
+      : "";
+    return result.reachable
+      ? `(probe: 🟢 reachable in ${result.latency}ms${keysets})`
+      : `(probe: 🔴 unreachable, ${result.error})`;
+  };
+
+  return { probeAll, verdict, result: (mintId: number) => results.get(mintId) };
+};
+
+export type Prober = ReturnType<typeof setupProber>;
@@ -0,0 +1,36 @@
+export type RetryOptions = {
+  // How many times a failed attempt is retried before giving up
+  retries: number;
+  // Delay before the first retry, doubled on every further attempt
+  retryDelay: number;
+  log: (...args: unknown[]) => void;
+};
+
+export const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Calls `run` until it resolves, with an exponential backoff between the
+ * attempts, and throws the last error once the retries are used up.
+ * `label` names what is retried in the log.
+ */
+export const retry = async <T>(
+  label: string,
+  options: RetryOptions,
+  run: (attempt: number) => Promise<T>,
+) => {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (attempt > 0) {
+      const delay = options.retryDelay * 2 ** (attempt - 1);
+      options.log(`Retrying ${label} in ${delay}ms (attempt ${attempt})`);
+      await sleep(delay);
+    }
+    try {
+      return await run(attempt);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
@@ -0,0 +1,60 @@
+// Anything recorded per mint over time, like state changes or balances
+export type MintSample = {
+  mint_id: number;
+  // ISO timestamp of the poll that recorded it
+  at: string;
+};
+
+export type SampleStorage<T> = {
+  load: () => T[];
+  append: (samples: T[]) => void;
+  save: (samples: T[]) => void;
+};
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Samples per mint, oldest first, loaded from `storage` and appended to it
+ * as they come. Samples older than `retention` ms are compacted away on
+ * startup and once a day, keeping the last one per mint so the value at
+ * the start of any window is still known.
+ */
+export const setupSampleLog = <T extends MintSample>(
+  storage: SampleStorage<T>,
+  retention: number,
+) => {
+  const byMint = new Map<number, T[]>();
+  let lastCompaction = 0;
+
+  const index = (sample: T) => {
+    const samples = byMint.get(sample.mint_id) ?? [];
+    samples.push(sample);
+    byMint.set(sample.mint_id, samples);
+  };
+
+  const compact = (now = Date.now()) => {
+    const cutoff = now - retention;
+    for (const [mintId, samples] of byMint) {
+      const firstRecent = samples.findIndex((sample) =>
+        new Date(sample.at).getTime() >= cutoff
+      );
+      const start = firstRecent === -1 ? samples.length - 1 : firstRecent - 1;
+      if (start > 0) byMint.set(mintId, samples.slice(start));
+    }
+    storage.save(
+      [...byMint.values()].flat().sort((a, b) => a.at.localeCompare(b.at)),
+    );
+    lastCompaction = now;
+  };
+
+  const add = (samples: T[], now = Date.now()) => {
+    samples.forEach(index);
+    storage.append(samples);
+    if (now - lastCompaction >= dayMs) compact(now);
+  };
+
+  storage.load().forEach(index);
+  compact();
+
+  return { byMint, add, compact };
+};
@@ -0,0 +1,13 @@
+// Nearest-rank percentile of `values`, null for an empty list
+export const percentile = (values: number[], p: number) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+};
+
+export const sum = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0);
+
+export const mean = (values: number[]) =>
+  values.length ? sum(values) / values.length : null;
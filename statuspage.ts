@@ -0,0 +1,148 @@
+import type { Mint } from "./Mint.ts";
+import type { Swap } from "./Swap.ts";
+import type { History, UptimeWindow } from "./history.ts";
+import type { ErrorClassifier } from "./errors.ts";
+import {
+  escapeXml,
+  formatPercent,
+  formatSeconds,
+  swapState,
+} from "./format.ts";
+
+export type Incident = {
+  mint_id: number;
+  state: Mint["state"];
+  // ISO timestamps, `end` is null while the incident is ongoing
+  start: string;
+  end: string | null;
+};
+
+export type StatusPageInput = {
+  mints: Mint[];
+  history: History;
+  swapsOf: (mintId: number) => Swap[];
+  errorClassifier: ErrorClassifier;
+  // Ms of incidents shown, counting from when they ended
+  incidentWindow: number;
+  now?: Date;
+};
+
+/**
+ * Periods the mints spent in ERROR or UNKNOWN that are ongoing or ended
+ * within the window, newest first. A removal ends an incident too.
+ */
+export const getIncidents = (
+  history: History,
+  mintIds: number[],
+  since: number,
+) =>
+  mintIds.flatMap((mintId) => {
+    const changes = history.transitions(mintId);
+    return changes.flatMap((change, i): Incident[] => {
+      if (change.state === "OK" || change.state === "REMOVED") return [];
+      const end = changes[i + 1]?.at ?? null;
+      if (end && new Date(end).getTime() < since) return [];
+      return [{ mint_id: mintId, state: change.state, start: change.at, end }];
+    });
+  }).sort((a, b) => b.start.localeCompare(a.start));
+
+const formatTime = (iso: string) =>
+  new Date(iso).toISOString().slice(0, 16).replace("T", " ");
+
+const uptimeClass = (share: number | null) =>
+  share === null ? "" : share >= 0.99 ? "good" : share >= 0.9 ? "fair" : "bad";
+
+const style =
+  `body{font-family:sans-serif;max-width:960px;margin:2em auto;padding:0 1em;color:#222}
+h1{margin-bottom:0}.muted{color:#777}
+.mint{border:1px solid #ddd;border-radius:6px;padding:.5em 1em;margin:1em 0}
+.mint h3{margin:.3em 0}.uptime span{margin-right:1em}
+.good{color:#1a7f37}.fair{color:#9a6700}.bad{color:#cf222e}
+table{border-collapse:collapse;width:100%;font-size:.85em}
+td,th{text-align:left;padding:2px 6px;border-bottom:1px solid #eee}`;
+
+/**
+ * A self-contained status page: the share of OK mints, recent incidents,
+ * and every mint with its uptime and last 10 swaps, worst states first.
+ */
+export const renderStatusPage = (
+  { mints, history, swapsOf, errorClassifier, incidentWindow, now }:
+    StatusPageInput,
+) => {
+  const time = now ?? new Date();
+  const names = new Map(mints.map((mint) => [mint.id, mint.name]));
+  const ok = mints.filter((mint) => mint.state === "OK").length;
+  const incidents = getIncidents(
+    history,
+    mints.map((mint) => mint.id),
+    time.getTime() - incidentWindow,
+  );
+  const stateOrder = { ERROR: 0, UNKNOWN: 1, OK: 2 };
+  const sorted = [...mints].sort((a, b) =>
+    stateOrder[a.state] - stateOrder[b.state] || a.name.localeCompare(b.name)
+  );
+
+  const incidentList = incidents.length
+    ? `<ul>${
+      incidents.map((incident) =>
+        `<li>${swapState[incident.state]} <b>${
+          escapeXml(names.get(incident.mint_id) ?? `Mint #${incident.mint_id}`)
+        }</b> ${incident.state} since ${formatTime(incident.start)}${
+          incident.end ? `, resolved ${formatTime(incident.end)}` : " (ongoing)"
+        }</li>`
+      ).join("\n")
+    }</ul>`
+    : `<p class="muted">No incidents 🎉</p>`;
+
+  const mintCards = sorted.map((mint) => {
+    const uptimes = history.uptimes(mint.id, time.getTime());
+    const swaps = swapsOf(mint.id);
+    const rows = swaps.map((swap) =>
+      `<tr><td>${swapState[swap.state]}</td><td>${escapeXml(swap.from_url)} → ${
+        escapeXml(swap.to_url)
+      }</td><td>${swap.amount} sats</td><td>${swap.fee} sats</td><td>${
+        formatSeconds(swap.time_taken)
+      }</td><td>${formatTime(swap.created_at)}</td><td>${
+        escapeXml(errorClassifier.classify(swap) ?? "")
+      }</td></tr>`
+    ).join("\n");
+    return `<div class="mint">
+<h3>${swapState[mint.state]} ${escapeXml(mint.name)}</h3>
+<a href="${escapeXml(mint.url)}">${escapeXml(mint.url)}</a>
+<p class="uptime">${
+      (Object.keys(uptimes) as UptimeWindow[]).map((window) =>
+        `<span class="${uptimeClass(uptimes[window])}">${window} ${
+          formatPercent(uptimes[window])
+        }</span>`
+      ).join("")
+    }</p>
+${
+      swaps.length
+        ? `<table><tr><th></th><th>Swap</th><th>Amount</th><th>Fee</th><th>Time</th><th>At</th><th>Error</th></tr>
+${rows}</table>`
+        : `<p class="muted">No recent swaps</p>`
+    }
+</div>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Cashu Mint Status</title>
+<style>${style}</style>
+</head>
+<body>
+<h1>Cashu Mint Status</h1>
+<p class="muted">Updated ${formatTime(time.toISOString())} UTC</p>
+<h2>${ok}/${mints.length} mints are OK</h2>
+<h2>Recent incidents</h2>
+${incidentList}
+<h2>Mints</h2>
+${mintCards}
+<p><a href="https://audit.8333.space/">Help support Round Robin Cashu Audit!</a></p>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,75 @@
+import type { Mint } from "./Mint.ts";
+
+// Mint ids each subscriber follows, keyed by their hex public key
+export type Subscriptions = Record<string, number[]>;
+
+export type SubscriptionStorage = {
+  load: () => Subscriptions;
+  save: (subscriptions: Subscriptions) => void;
+};
+
+export const normalizeUrl = (url: string) =>
+  url.trim().toLowerCase().replace(/\/+$/, "");
+
+const help = `Commands:
+subscribe <mint url> - get a DM when the mint fails a swap or changes state
+unsubscribe <mint url> - stop those DMs
+list - show your subscriptions`;
+
+/**
+ * Per-mint alert subscriptions managed by DM commands and persisted through
+ * `storage` after every change.
+ */
+export const setupSubscriptions = (storage: SubscriptionStorage) => {
+  let subscriptions = storage.load();
+
+  const update = (pubkey: string, mintIds: number[]) => {
+    const { [pubkey]: _, ...others } = subscriptions;
+    subscriptions = mintIds.length ? { ...others, [pubkey]: mintIds } : others;
+    storage.save(subscriptions);
+  };
+
+  // Replies to a DM command from `sender`
+  const handleCommand = (sender: string, text: string, mints: Mint[]) => {
+    const [command, url] = text.trim().split(/\s+/);
+    const current = subscriptions[sender] ?? [];
+    switch (command?.toLowerCase()) {
+      case "subscribe":
+      case "unsubscribe": {
+        if (!url) return `Usage: ${command.toLowerCase()} <mint url>`;
+        const mint = mints.find((mint) =>
+          normalizeUrl(mint.url) === normalizeUrl(url)
+        );
+        if (!mint) return `${url} isn't an audited mint.`;
+        if (command.toLowerCase() === "subscribe") {
+          if (!current.includes(mint.id)) update(sender, [...current, mint.id]);
+          return `Subscribed to ${mint.name} (${mint.url}).`;
+        }
+        update(sender, current.filter((mintId) => mintId !== mint.id));
+        return `Unsubscribed from ${mint.name} (${mint.url}).`;
+      }
+      case "list": {
+        if (!current.length) return "You have no subscriptions.";
+        const lines = current.map((mintId) => {
+          const mint = mints.find((mint) => mint.id === mintId);
+          return mint
+            ? `${mint.name} - ${mint.url}`
+            : `Mint #${mintId} (no longer audited)`;
+        });
+        return `Your subscriptions:\n${lines.join("\n")}`;
+      }
+      default:
+        return help;
+    }
+  };
+
+  // Public keys subscribed to any of the mints
+  const subscribersOf = (...mintIds: number[]) =>
+    Object.entries(subscriptions)
+      .filter(([, subscribed]) =>
+        subscribed.some((mintId) => mintIds.includes(mintId))
+      )
+      .map(([pubkey]) => pubkey);
+
+  return { handleCommand, subscribersOf };
+};
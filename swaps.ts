@@ -0,0 +1,83 @@
+import type { Swap } from "./Swap.ts";
+
+const time = (swap: Swap) => new Date(swap.created_at).getTime();
+
+// Whether the swap was created in [from, to)
+export const createdBetween = (swap: Swap, from: number, to: number) =>
+  time(swap) >= from && time(swap) < to;
+
+/**
+ * In-memory index of the swaps seen so far, keyed by mint id. Each mint's
+ * list is kept newest first so history lookups don't need to re-sort.
+ * The oldest swaps are dropped once more than `maxSwaps` are held.
+ */
+export const setupSwapIndex = (maxSwaps: number) => {
+  const byId = new Map<number, Swap>();
+  const byMint = new Map<number, Swap[]>();
+  let lastId = 0;
+
+  const insert = (mintId: number, swap: Swap) => {
+    const list = byMint.get(mintId) ?? [];
+    // binary search for the first swap older than this one
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (time(list[mid]) >= time(swap)) low = mid + 1;
+      else high = mid;
+    }
+    list.splice(low, 0, swap);
+    byMint.set(mintId, list);
+  };
+
+  const prune = () => {
+    if (byId.size <= maxSwaps) return;
+    const removed = new Set<number>();
+    const affected = new Set<number>();
+    for (const [id, swap] of byId) {
+      if (byId.size <= maxSwaps) break;
+      byId.delete(id);
+      removed.add(id);
+      affected.add(swap.from_id).add(swap.to_id);
+    }
+    for (const mintId of affected) {
+      const list = byMint.get(mintId)?.filter((swap) => !removed.has(swap.id));
+      if (list?.length) byMint.set(mintId, list);
+      else byMint.delete(mintId);
+    }
+  };
+
+  /**
+   * Merges swaps into the index and returns the ones not seen before,
+   * oldest first.
+   */
+  const add = (swaps: Swap[]) => {
+    const added = swaps
+      .filter((swap) => !byId.has(swap.id))
+      .sort((a, b) => a.id - b.id);
+    for (const swap of added) {
+      byId.set(swap.id, swap);
+      lastId = Math.max(lastId, swap.id);
+      insert(swap.from_id, swap);
+      if (swap.to_id !== swap.from_id) insert(swap.to_id, swap);
+    }
+    prune();
+    return added;
+  };
+
+  // Newest swaps involving the mint, as sender or receiver
+  const latest = (mintId: number, count = 10) =>
+    (byMint.get(mintId) ?? []).slice(0, count);
+
+  // Swaps with an id above `id`, oldest first
+  const after = (id: number) =>
+    [...byId.values()]
+      .filter((swap) => swap.id > id)
+      .sort((a, b) => a.id - b.id);
+
+  const oldestId = () => byId.keys().next().value ?? 0;
+
+  return { add, latest, after, oldestId, lastId: () => lastId };
+};
+
+export type SwapIndex = ReturnType<typeof setupSwapIndex>;
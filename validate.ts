@@ -0,0 +1,73 @@
+export const states = ["OK", "UNKNOWN", "ERROR"] as const;
+export type State = typeof states[number];
+
+// A validator returns the list of problems found, empty when the record is fine
+export type Validator = (value: Record<string, unknown>) => string[];
+
+export const isState = (value: unknown): value is State =>
+  states.includes(value as State);
+
+export const expectNumber = (
+  record: Record<string, unknown>,
+  key: string,
+) =>
+  typeof record[key] === "number" && Number.isFinite(record[key])
+    ? []
+    : [`${key} is not a number: ${JSON.stringify(record[key])}`];
+
+export const expectString = (
+  record: Record<string, unknown>,
+  key: string,
+) =>
+  typeof record[key] === "string"
+    ? []
+    : [`${key} is not a string: ${JSON.stringify(record[key])}`];
+
+export const expectDate = (
+  record: Record<string, unknown>,
+  key: string,
+) =>
+  typeof record[key] === "string" &&
+    !Number.isNaN(new Date(record[key] as string).getTime())
+    ? []
+    : [`${key} is not a date: ${JSON.stringify(record[key])}`];
+
+export const expectState = (
+  record: Record<string, unknown>,
+  key: string,
+) =>
+  isState(record[key])
+    ? []
+    : [`${key} is not a known state: ${JSON.stringify(record[key])}`];
+
+/**
+ * Splits untrusted records into the ones passing `validator` and the ones
+ * that don't. Rejected records are logged with their problems so a single
+ * malformed field doesn't take the whole batch down.
+ */
+export const quarantine = <T>(
+  records: unknown,
+  validator: Validator,
+  label: string,
+  log: (...args: unknown[]) => void,
+) => {
+  if (!Array.isArray(records)) {
+    throw new Error(`Expected a list of ${label}s, got ${typeof records}`);
+  }
+  const valid: T[] = [];
+  const rejected: { record: unknown; problems: string[] }[] = [];
+  for (const record of records) {
+    const problems = record && typeof record === "object"
+      ? validator(record as Record<string, unknown>)
+      : [`${label} is not an object`];
+    if (problems.length) {
+      rejected.push({ record, problems });
+    } else {
+      valid.push(record as T);
+    }
+  }
+  if (rejected.length) {
+    log(`Quarantined ${rejected.length} malformed ${label}(s):`, rejected);
+  }
+  return { valid, rejected };
+};